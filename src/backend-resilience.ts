@@ -0,0 +1,275 @@
+import { Logger } from '@nestjs/common';
+import { trace } from '@opentelemetry/api';
+
+import { SecretBackendTimeoutError } from './errors/secret-backend-timeout.error';
+import { SecretCircuitOpenError } from './errors/secret-circuit-open.error';
+import { SecretBackendResilienceOptions } from './interfaces/secret-manager-options.interface';
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+// gRPC status codes: 4 = DEADLINE_EXCEEDED, 8 = RESOURCE_EXHAUSTED, 14 = UNAVAILABLE
+const TRANSIENT_GRPC_CODES = new Set([4, 8, 14]);
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+const TRANSIENT_HTTP_STATUSES = new Set([429, 500, 502, 503, 504]);
+// AWS reports throttling with HTTP 400 and these error names (SDK v3) or codes (v2)
+const AWS_THROTTLING_ERRORS = new Set([
+  'ThrottlingException',
+  'Throttling',
+  'ThrottledException',
+  'RequestThrottledException',
+  'TooManyRequestsException',
+  'ProvisionedThroughputExceededException',
+  'TransactionInProgressException',
+  'RequestLimitExceeded',
+  'BandwidthLimitExceeded',
+  'RequestThrottled',
+  'SlowDown',
+  'PriorRequestNotComplete',
+  'EC2ThrottledException',
+]);
+
+/**
+ * Check whether a backend error is worth retrying.
+ *
+ * Recognizes gRPC status codes, Node.js network error codes (also as the
+ * `cause` of a failed fetch), AWS throttling errors, HTTP 429/5xx statuses
+ * and timeouts.
+ */
+export function isTransientBackendError(error: unknown): boolean {
+  if (error instanceof SecretBackendTimeoutError) {
+    return true;
+  }
+
+  const candidate = error as {
+    name?: unknown;
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    $metadata?: { httpStatusCode?: unknown };
+    cause?: { code?: unknown };
+  } | null;
+
+  if (!candidate || typeof candidate !== 'object') {
+    return false;
+  }
+
+  const { code } = candidate;
+  if (typeof code === 'number' && TRANSIENT_GRPC_CODES.has(code)) {
+    return true;
+  }
+  if (
+    (typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code)) ||
+    (typeof candidate.cause?.code === 'string' &&
+      TRANSIENT_NETWORK_CODES.has(candidate.cause.code))
+  ) {
+    return true;
+  }
+  if (
+    (typeof candidate.name === 'string' &&
+      AWS_THROTTLING_ERRORS.has(candidate.name)) ||
+    (typeof code === 'string' && AWS_THROTTLING_ERRORS.has(code))
+  ) {
+    return true;
+  }
+
+  const status =
+    candidate.status ??
+    candidate.statusCode ??
+    candidate.$metadata?.httpStatusCode;
+  return typeof status === 'number' && TRANSIENT_HTTP_STATUSES.has(status);
+}
+
+/**
+ * Retry, timeout and circuit breaker policy for the calls to one backend.
+ *
+ * Retries and circuit state changes are recorded as events on the
+ * active span (`secret.retry`, `secret.circuit_state_change`,
+ * `secret.circuit_rejected`).
+ *
+ * Timed out attempts are abandoned, not cancelled: the backend call keeps
+ * running, but its result is ignored.
+ */
+export class BackendResilience {
+  private readonly logger = new Logger(BackendResilience.name);
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly backend: string,
+    private readonly options: SecretBackendResilienceOptions = {},
+  ) {}
+
+  /**
+   * Run a backend call under the policy.
+   *
+   * @param secretName - Secret name, for error reporting
+   * @param operation - The backend call
+   * @returns The result of the first successful attempt
+   * @throws SecretCircuitOpenError if the circuit is open
+   * @throws The last error if all attempts failed or the error is not transient
+   */
+  async execute<T>(
+    secretName: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const retries = this.options.retries ?? 2;
+
+    for (let attempt = 0; ; attempt++) {
+      this.acquire(secretName);
+
+      try {
+        const result = await this.withTimeout(secretName, operation);
+        this.onSuccess();
+        return result;
+      } catch (error) {
+        const transient = isTransientBackendError(error);
+
+        // Definitive answers (e.g., not found) mean the backend is healthy
+        if (transient) {
+          this.onFailure();
+        } else {
+          this.onSuccess();
+        }
+
+        if (!transient || attempt >= retries) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(attempt);
+        trace.getActiveSpan()?.addEvent('secret.retry', {
+          'secret.retry.attempt': attempt + 1,
+          'secret.retry.delay_ms': delay,
+          'secret.retry.error': (error as Error).name,
+        });
+        this.logger.warn(
+          `Retrying secret '${secretName}' (backend: ${this.backend}) in ${delay}ms: ${(error as Error).message}`,
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Get the current circuit state.
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private acquire(secretName: string): void {
+    const breaker = this.options.circuitBreaker;
+    if (!breaker || this.state === 'closed') {
+      return;
+    }
+
+    if (this.state === 'open') {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < breaker.resetTimeout) {
+        this.reject(secretName, breaker.resetTimeout - elapsed);
+      }
+      this.transition('half-open');
+    }
+
+    // Only one trial call is let through while half-open
+    if (this.trialInFlight) {
+      this.reject(secretName, 0);
+    }
+    this.trialInFlight = true;
+  }
+
+  private reject(secretName: string, retryAfterMs: number): never {
+    trace.getActiveSpan()?.addEvent('secret.circuit_rejected', {
+      'secret.circuit.state': this.state,
+    });
+    throw new SecretCircuitOpenError(secretName, this.backend, retryAfterMs);
+  }
+
+  private onSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    const breaker = this.options.circuitBreaker;
+    if (
+      breaker &&
+      (this.state === 'half-open' ||
+        (this.state === 'closed' && this.failures >= breaker.failureThreshold))
+    ) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    trace.getActiveSpan()?.addEvent('secret.circuit_state_change', {
+      'secret.circuit.previous_state': this.state,
+      'secret.circuit.state': state,
+    });
+
+    if (state === 'open') {
+      this.logger.warn(
+        `Circuit breaker opened for backend '${this.backend}' after ${this.failures} failure(s)`,
+      );
+    } else if (state === 'closed') {
+      this.logger.log(`Circuit breaker closed for backend '${this.backend}'`);
+    }
+
+    this.state = state;
+  }
+
+  private async withTimeout<T>(
+    secretName: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const timeoutMs = this.options.timeout;
+    if (timeoutMs === undefined) {
+      return operation();
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new SecretBackendTimeoutError(secretName, this.backend, timeoutMs),
+          ),
+        timeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([operation(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter.
+   */
+  private getRetryDelay(attempt: number): number {
+    const base = this.options.retryBaseDelay ?? 100;
+    const max = this.options.retryMaxDelay ?? 2000;
+    const ceiling = Math.min(max, base * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
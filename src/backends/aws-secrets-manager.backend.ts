@@ -0,0 +1,168 @@
+import { Logger } from '@nestjs/common';
+
+import { SecretAccessDeniedError } from '../errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../errors/secret-not-found.error';
+import {
+  SecretBackend,
+  SecretBackendValue,
+} from '../interfaces/secret-backend.interface';
+
+/**
+ * Minimal AWS Secrets Manager client used by the backend.
+ *
+ * Satisfied by the `SecretsManager` client from
+ * `@aws-sdk/client-secrets-manager`, or by a stub in tests.
+ */
+export interface AwsSecretsManagerClient {
+  getSecretValue(input: {
+    SecretId: string;
+    VersionId?: string;
+    VersionStage?: string;
+  }): Promise<{
+    SecretString?: string;
+    SecretBinary?: Uint8Array;
+    VersionId?: string;
+    CreatedDate?: Date;
+  }>;
+}
+
+/**
+ * Options for the AWS Secrets Manager backend.
+ */
+export interface AwsSecretsManagerBackendOptions {
+  /**
+   * AWS region used when creating the default client.
+   */
+  region?: string;
+
+  /**
+   * Client to use instead of the default `SecretsManager` client.
+   */
+  client?: AwsSecretsManagerClient;
+}
+
+/**
+ * Staging labels AWS attaches to secret versions.
+ * Other version strings are treated as version IDs.
+ */
+const STAGING_LABELS = new Set(['AWSCURRENT', 'AWSPREVIOUS', 'AWSPENDING']);
+
+/**
+ * Backend implementation for AWS Secrets Manager.
+ *
+ * Uses the default AWS credential provider chain when no client is given,
+ * which requires the optional `@aws-sdk/client-secrets-manager` package.
+ *
+ * Versions map as follows:
+ * - 'latest' resolves to the AWSCURRENT staging label
+ * - 'AWSCURRENT', 'AWSPREVIOUS' and 'AWSPENDING' are used as staging labels
+ * - anything else is used as a version ID
+ */
+export class AwsSecretsManagerBackend implements SecretBackend {
+  readonly name = 'aws';
+  private client?: AwsSecretsManagerClient;
+  private readonly region?: string;
+  private readonly logger = new Logger(AwsSecretsManagerBackend.name);
+
+  constructor(options: AwsSecretsManagerBackendOptions = {}) {
+    this.client = options.client;
+    this.region = options.region;
+  }
+
+  async get(name: string, version?: string): Promise<string> {
+    return (await this.getWithMetadata(name, version)).value;
+  }
+
+  /**
+   * Fetch a secret with the ID and creation date of the version it
+   * resolved to.
+   */
+  async getWithMetadata(
+    name: string,
+    version?: string,
+  ): Promise<SecretBackendValue> {
+    const versionId = version ?? 'latest';
+    let response: Awaited<
+      ReturnType<AwsSecretsManagerClient['getSecretValue']>
+    >;
+
+    try {
+      this.logger.debug(
+        `Fetching secret from AWS: ${name} (version: ${versionId})`,
+      );
+
+      const client = await this.getClient();
+      response = await client.getSecretValue({
+        SecretId: name,
+        ...this.toVersionSelector(versionId),
+      });
+    } catch (error: unknown) {
+      const awsError = error as { name?: string; message?: string };
+
+      if (awsError.name === 'ResourceNotFoundException') {
+        throw new SecretNotFoundError(name, this.name, version);
+      }
+
+      if (awsError.name === 'AccessDeniedException') {
+        throw new SecretAccessDeniedError(name, this.name, awsError.message);
+      }
+
+      // Log and re-throw unexpected errors
+      this.logger.error(
+        `Unexpected error fetching secret '${name}': ${awsError.message}`,
+        error,
+      );
+      throw error;
+    }
+
+    let value: string;
+
+    if (response.SecretString !== undefined) {
+      value = response.SecretString;
+    } else if (response.SecretBinary !== undefined) {
+      value = Buffer.from(response.SecretBinary).toString('utf-8');
+    } else {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    return {
+      value,
+      version: response.VersionId,
+      createTime: response.CreatedDate,
+    };
+  }
+
+  async getLatest(name: string): Promise<string> {
+    return this.get(name, 'latest');
+  }
+
+  /**
+   * Map a version string to the AWS version selector.
+   */
+  private toVersionSelector(
+    version: string,
+  ): { VersionId: string } | { VersionStage: string } {
+    if (version === 'latest') {
+      return { VersionStage: 'AWSCURRENT' };
+    }
+
+    if (STAGING_LABELS.has(version)) {
+      return { VersionStage: version };
+    }
+
+    return { VersionId: version };
+  }
+
+  /**
+   * Get the client, creating the default SDK client on first use.
+   */
+  private async getClient(): Promise<AwsSecretsManagerClient> {
+    if (!this.client) {
+      const { SecretsManager } =
+        await import('@aws-sdk/client-secrets-manager');
+      this.client = new SecretsManager({ region: this.region });
+    }
+
+    return this.client;
+  }
+}
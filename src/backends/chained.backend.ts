@@ -0,0 +1,91 @@
+import { trace } from '@opentelemetry/api';
+
+import { SecretNotFoundError } from '../errors/secret-not-found.error';
+import {
+  SecretBackend,
+  SecretBackendValue,
+} from '../interfaces/secret-backend.interface';
+
+/**
+ * Backend that tries an ordered list of backends.
+ *
+ * Falls through to the next backend only when a secret is not found.
+ * Any other error (e.g., SecretAccessDeniedError) is surfaced immediately,
+ * so a misconfigured override never silently falls back to another source.
+ *
+ * The backend that served the value is recorded on the active span
+ * as `secret.served_by`.
+ *
+ * @example
+ * ```typescript
+ * // Local overrides first, then GCP
+ * new ChainedSecretBackend([memoryBackend, gcpBackend]);
+ * ```
+ */
+export class ChainedSecretBackend implements SecretBackend {
+  constructor(
+    private readonly backends: SecretBackend[],
+    readonly name = 'chain',
+  ) {
+    if (backends.length === 0) {
+      throw new Error('ChainedSecretBackend requires at least one backend');
+    }
+  }
+
+  async get(name: string, version?: string): Promise<string> {
+    return this.firstFound(name, version, (backend) =>
+      backend.get(name, version),
+    );
+  }
+
+  /**
+   * Fetch a secret with the version metadata reported by the backend
+   * that served it, and that backend's name.
+   */
+  async getWithMetadata(
+    name: string,
+    version?: string,
+  ): Promise<SecretBackendValue> {
+    return this.firstFound(name, version, async (backend) => {
+      const result = backend.getWithMetadata
+        ? await backend.getWithMetadata(name, version)
+        : { value: await backend.get(name, version) };
+
+      return { ...result, backend: result.backend ?? backend.name };
+    });
+  }
+
+  async getLatest(name: string): Promise<string> {
+    return this.get(name, 'latest');
+  }
+
+  /**
+   * Get the names of the chained backends, in lookup order.
+   */
+  getBackendNames(): string[] {
+    return this.backends.map((backend) => backend.name);
+  }
+
+  /**
+   * Read from each backend in order until one has the secret.
+   */
+  private async firstFound<T>(
+    name: string,
+    version: string | undefined,
+    read: (backend: SecretBackend) => Promise<T>,
+  ): Promise<T> {
+    for (const backend of this.backends) {
+      try {
+        const result = await read(backend);
+        trace.getActiveSpan()?.setAttribute('secret.served_by', backend.name);
+        return result;
+      } catch (error) {
+        if (!(error instanceof SecretNotFoundError)) {
+          throw error;
+        }
+      }
+    }
+
+    throw new SecretNotFoundError(name, this.name, version);
+  }
+}
@@ -0,0 +1,82 @@
+import { SecretNotFoundError } from '../errors/secret-not-found.error';
+import { SecretBackend } from '../interfaces/secret-backend.interface';
+
+/**
+ * Options for the environment variable backend.
+ */
+export interface EnvSecretBackendOptions {
+  /**
+   * Prefix prepended to every mapped variable name (e.g., 'APP_').
+   * @default ''
+   */
+  prefix?: string;
+
+  /**
+   * Rule for mapping a secret name to a variable name (before the prefix
+   * is applied). Defaults to upper-casing the name and replacing every
+   * non-alphanumeric character with an underscore.
+   */
+  nameMapper?: (name: string) => string;
+
+  /**
+   * Environment to read variables from.
+   * @default process.env
+   */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Default secret name to variable name mapping.
+ * `db-password` becomes `DB_PASSWORD`.
+ */
+function defaultNameMapper(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+/**
+ * Backend implementation reading secrets from environment variables.
+ *
+ * Useful for CI and local setups (e.g., docker-compose) that inject
+ * secrets as environment variables. Environment variables are not
+ * versioned, so only the 'latest' version is available.
+ */
+export class EnvSecretBackend implements SecretBackend {
+  readonly name = 'env';
+  private readonly prefix: string;
+  private readonly nameMapper: (name: string) => string;
+  private readonly env: NodeJS.ProcessEnv;
+
+  constructor(options: EnvSecretBackendOptions = {}) {
+    this.prefix = options.prefix ?? '';
+    this.nameMapper = options.nameMapper ?? defaultNameMapper;
+    this.env = options.env ?? process.env;
+  }
+
+  /**
+   * Get the environment variable name a secret maps to.
+   *
+   * @param name - Secret name
+   * @returns The environment variable name
+   */
+  getVariableName(name: string): string {
+    return `${this.prefix}${this.nameMapper(name)}`;
+  }
+
+  async get(name: string, version?: string): Promise<string> {
+    if (version !== undefined && version !== 'latest') {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    const value = this.env[this.getVariableName(name)];
+
+    if (value === undefined) {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    return value;
+  }
+
+  async getLatest(name: string): Promise<string> {
+    return this.get(name, 'latest');
+  }
+}
@@ -0,0 +1,171 @@
+import { Logger } from '@nestjs/common';
+import { FSWatcher, watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { join, sep } from 'path';
+
+import { SecretAccessDeniedError } from '../errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../errors/secret-not-found.error';
+import { SecretBackend } from '../interfaces/secret-backend.interface';
+
+/**
+ * Options for the file backend.
+ */
+export interface FileSecretBackendOptions {
+  /**
+   * Directory containing the secret files (e.g., '/var/secrets').
+   */
+  directory: string;
+
+  /**
+   * Whether to strip trailing newlines from file contents.
+   * @default true
+   */
+  trimTrailingNewline?: boolean;
+}
+
+/**
+ * Listener notified when files in the secrets directory change.
+ * Receives the affected secret name, or undefined when the change
+ * cannot be attributed to a single secret.
+ */
+export type FileSecretChangeListener = (name: string | undefined) => void;
+
+/**
+ * Backend implementation for secrets mounted as files.
+ *
+ * Supports the layout used by Kubernetes secret volumes:
+ * - `<directory>/<name>` holds the latest value
+ * - `<directory>/<name>/<version>` holds a specific version, in which case
+ *   `<directory>/<name>/latest` holds the latest value
+ */
+export class FileSecretBackend implements SecretBackend {
+  readonly name = 'file';
+  private readonly directory: string;
+  private readonly trimTrailingNewline: boolean;
+  private readonly logger = new Logger(FileSecretBackend.name);
+  private watcher?: FSWatcher;
+
+  constructor(options: FileSecretBackendOptions) {
+    this.directory = options.directory;
+    this.trimTrailingNewline = options.trimTrailingNewline !== false;
+  }
+
+  async get(name: string, version?: string): Promise<string> {
+    const versionId = version ?? 'latest';
+
+    if (!isPathSegment(name) || !isPathSegment(versionId)) {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    const secretPath = join(this.directory, name);
+    let content: string;
+
+    try {
+      if (versionId === 'latest') {
+        content = await this.readLatest(secretPath);
+      } else {
+        content = await readFile(join(secretPath, versionId), 'utf-8');
+      }
+    } catch (error: unknown) {
+      const fsError = error as NodeJS.ErrnoException;
+
+      if (
+        fsError.code === 'ENOENT' ||
+        fsError.code === 'ENOTDIR' ||
+        fsError.code === 'EISDIR'
+      ) {
+        throw new SecretNotFoundError(name, this.name, version);
+      }
+
+      if (fsError.code === 'EACCES' || fsError.code === 'EPERM') {
+        throw new SecretAccessDeniedError(name, this.name, fsError.message);
+      }
+
+      // Log and re-throw unexpected errors
+      this.logger.error(
+        `Unexpected error reading secret '${name}': ${fsError.message}`,
+        error,
+      );
+      throw error;
+    }
+
+    return this.trimTrailingNewline
+      ? content.replace(/(\r?\n)+$/, '')
+      : content;
+  }
+
+  async getLatest(name: string): Promise<string> {
+    return this.get(name, 'latest');
+  }
+
+  /**
+   * Watch the secrets directory for changes.
+   * If the directory cannot be watched (e.g., it does not exist), a warning
+   * is logged and changes go unnoticed.
+   *
+   * @param listener - Called with the name of each changed secret
+   */
+  watch(listener: FileSecretChangeListener): void {
+    this.close();
+
+    try {
+      this.watcher = watch(
+        this.directory,
+        { persistent: false, recursive: true },
+        (_event, filename) => {
+          const [name] = filename ? filename.toString().split(sep) : [];
+
+          // Kubernetes swaps secret volumes atomically through '..data'
+          // symlinks, so such changes may affect every secret.
+          listener(name && !name.startsWith('..') ? name : undefined);
+        },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Not watching secrets directory '${this.directory}': ${(error as Error).message}`,
+      );
+      return;
+    }
+
+    this.watcher.on('error', (error) => {
+      this.logger.error(`Error watching secrets directory: ${error.message}`);
+    });
+  }
+
+  /**
+   * Stop watching the secrets directory.
+   */
+  close(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Read the latest value, which is either the file itself or the
+   * 'latest' file inside a versioned directory.
+   */
+  private async readLatest(secretPath: string): Promise<string> {
+    try {
+      return await readFile(secretPath, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'EISDIR') {
+        return readFile(join(secretPath, 'latest'), 'utf-8');
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Check that a name can be used as a single path segment,
+ * so secret lookups cannot escape the secrets directory.
+ */
+function isPathSegment(value: string): boolean {
+  return (
+    value.length > 0 &&
+    value !== '.' &&
+    value !== '..' &&
+    !value.includes('/') &&
+    !value.includes('\\')
+  );
+}
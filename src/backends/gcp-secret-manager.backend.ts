@@ -1,9 +1,53 @@
-import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+import {
+  SecretManagerServiceClient,
+  protos,
+} from '@google-cloud/secret-manager';
 import { Logger } from '@nestjs/common';
 
 import { SecretAccessDeniedError } from '../errors/secret-access-denied.error';
 import { SecretNotFoundError } from '../errors/secret-not-found.error';
-import { SecretBackend } from '../interfaces/secret-backend.interface';
+import {
+  SecretBackend,
+  SecretBackendValue,
+  SecretCreateOptions,
+  SecretListOptions,
+  SecretListPage,
+  SecretVersionInfo,
+  SecretVersionMetadata,
+  SecretVersionState,
+} from '../interfaces/secret-backend.interface';
+
+// Version states arrive as enum names or numbers, depending on client options
+const VERSION_STATES: Record<string, SecretVersionState> = {
+  ENABLED: 'enabled',
+  DISABLED: 'disabled',
+  DESTROYED: 'destroyed',
+  1: 'enabled',
+  2: 'disabled',
+  3: 'destroyed',
+};
+
+/**
+ * Convert a protobuf timestamp to a Date.
+ */
+function toDate(
+  timestamp: protos.google.protobuf.ITimestamp | null | undefined,
+): Date | undefined {
+  if (timestamp?.seconds == null) {
+    return undefined;
+  }
+
+  return new Date(
+    Number(timestamp.seconds) * 1000 + Math.floor((timestamp.nanos ?? 0) / 1e6),
+  );
+}
+
+/**
+ * Get the last segment of a resource name (e.g., the version ID).
+ */
+function lastSegment(resourceName: string): string {
+  return resourceName.slice(resourceName.lastIndexOf('/') + 1);
+}
 
 /**
  * Backend implementation for Google Cloud Secret Manager.
@@ -21,43 +65,179 @@ export class GcpSecretManagerBackend implements SecretBackend {
   }
 
   async get(name: string, version?: string): Promise<string> {
+    return (await this.access(name, version)).value;
+  }
+
+  /**
+   * Fetch a secret with the version it resolved to and its checksum,
+   * both reported by the access call itself.
+   */
+  async getWithMetadata(
+    name: string,
+    version?: string,
+  ): Promise<SecretBackendValue> {
+    const { value, versionName, checksum } = await this.access(name, version);
+
+    return {
+      value,
+      version: versionName ? lastSegment(versionName) : undefined,
+      checksum,
+    };
+  }
+
+  /**
+   * Read the create time and etag of a version with `getSecretVersion`,
+   * which requires the `secretmanager.versions.get` permission.
+   */
+  async describeVersion(
+    name: string,
+    version: string,
+  ): Promise<SecretVersionMetadata> {
+    try {
+      const [secretVersion] = await this.client.getSecretVersion({
+        name: `${this.getSecretName(name)}/versions/${version}`,
+      });
+
+      return {
+        version,
+        createTime: toDate(secretVersion.createTime),
+        etag: secretVersion.etag ?? undefined,
+      };
+    } catch (error: unknown) {
+      throw this.mapError(error, name, version, 'describing secret');
+    }
+  }
+
+  async getLatest(name: string): Promise<string> {
+    return this.get(name, 'latest');
+  }
+
+  /**
+   * Create a secret with automatic replication.
+   */
+  async createSecret(
+    name: string,
+    options: SecretCreateOptions = {},
+  ): Promise<void> {
+    const secretName = this.getSecretName(name);
+    const separator = secretName.lastIndexOf('/secrets/');
+
+    try {
+      await this.client.createSecret({
+        parent: secretName.slice(0, separator),
+        secretId: secretName.slice(separator + '/secrets/'.length),
+        secret: { replication: { automatic: {} }, labels: options.labels },
+      });
+    } catch (error: unknown) {
+      throw this.mapError(error, name, undefined, 'creating secret');
+    }
+  }
+
+  async addVersion(name: string, value: string): Promise<string> {
+    try {
+      const [secretVersion] = await this.client.addSecretVersion({
+        parent: this.getSecretName(name),
+        payload: { data: Buffer.from(value, 'utf-8') },
+      });
+      return lastSegment(secretVersion.name ?? '');
+    } catch (error: unknown) {
+      throw this.mapError(error, name, undefined, 'adding a version to secret');
+    }
+  }
+
+  async disableVersion(name: string, version: string): Promise<void> {
+    const versionName = `${this.getSecretName(name)}/versions/${version}`;
+
+    try {
+      await this.client.disableSecretVersion({ name: versionName });
+    } catch (error: unknown) {
+      throw this.mapError(error, name, version, 'disabling secret');
+    }
+  }
+
+  async destroyVersion(name: string, version: string): Promise<void> {
+    const versionName = `${this.getSecretName(name)}/versions/${version}`;
+
+    try {
+      await this.client.destroySecretVersion({ name: versionName });
+    } catch (error: unknown) {
+      throw this.mapError(error, name, version, 'destroying secret');
+    }
+  }
+
+  /**
+   * List the secrets of the project.
+   *
+   * @param options - Filter in the Secret Manager syntax, and page to list
+   */
+  async listSecrets(options: SecretListOptions = {}): Promise<SecretListPage> {
+    try {
+      const [secrets, nextRequest] = await this.client.listSecrets(
+        {
+          parent: `projects/${this.projectId}`,
+          filter: options.filter,
+          pageToken: options.pageToken,
+          pageSize: options.pageSize,
+        },
+        { autoPaginate: false },
+      );
+
+      return {
+        secrets: secrets.map((secret) => ({
+          name: lastSegment(secret.name ?? ''),
+          createTime: toDate(secret.createTime),
+          labels: secret.labels ?? undefined,
+        })),
+        nextPageToken: nextRequest?.pageToken ?? undefined,
+      };
+    } catch (error: unknown) {
+      throw this.mapError(
+        error,
+        `projects/${this.projectId}`,
+        undefined,
+        'listing secrets of',
+      );
+    }
+  }
+
+  async listVersions(name: string): Promise<SecretVersionInfo[]> {
+    try {
+      const [versions] = await this.client.listSecretVersions({
+        parent: this.getSecretName(name),
+      });
+
+      return versions.map((secretVersion) => ({
+        version: lastSegment(secretVersion.name ?? ''),
+        state: VERSION_STATES[String(secretVersion.state)] ?? 'disabled',
+        createTime: toDate(secretVersion.createTime),
+      }));
+    } catch (error: unknown) {
+      throw this.mapError(error, name, undefined, 'listing versions of secret');
+    }
+  }
+
+  private async access(
+    name: string,
+    version?: string,
+  ): Promise<{ value: string; versionName?: string; checksum?: string }> {
     const versionId = version ?? 'latest';
-    const secretPath = `projects/${this.projectId}/secrets/${name}/versions/${versionId}`;
-    let payload;
+    const secretPath = `${this.getSecretName(name)}/versions/${versionId}`;
+    let response;
 
     try {
       this.logger.debug(
         `Fetching secret from GCP: ${name} (version: ${versionId})`,
       );
 
-      const [response] = await this.client.accessSecretVersion({
+      [response] = await this.client.accessSecretVersion({
         name: secretPath,
       });
-
-      payload = response.payload?.data;
     } catch (error: unknown) {
-      // Handle gRPC errors from GCP
-      const grpcError = error as { code?: number; message?: string };
-
-      // gRPC status codes:
-      // 5 = NOT_FOUND
-      // 7 = PERMISSION_DENIED
-      if (grpcError.code === 5) {
-        throw new SecretNotFoundError(name, this.name, version);
-      }
-
-      if (grpcError.code === 7) {
-        throw new SecretAccessDeniedError(name, this.name, grpcError.message);
-      }
-
-      // Log and re-throw unexpected errors
-      this.logger.error(
-        `Unexpected error fetching secret '${name}': ${grpcError.message}`,
-        error,
-      );
-      throw error;
+      throw this.mapError(error, name, version, 'fetching secret');
     }
 
+    const payload = response.payload?.data;
+
     if (!payload) {
       throw new SecretNotFoundError(name, this.name, version);
     }
@@ -67,11 +247,52 @@ export class GcpSecretManagerBackend implements SecretBackend {
       typeof payload === 'string'
         ? payload
         : Buffer.from(payload).toString('utf-8');
+    const checksum = response.payload?.dataCrc32c;
 
-    return value;
+    return {
+      value,
+      versionName: response.name ?? undefined,
+      checksum: checksum == null ? undefined : String(checksum),
+    };
   }
 
-  async getLatest(name: string): Promise<string> {
-    return this.get(name, 'latest');
+  /**
+   * Map a gRPC error from GCP to the module's errors.
+   */
+  private mapError(
+    error: unknown,
+    name: string,
+    version: string | undefined,
+    action: string,
+  ): unknown {
+    const grpcError = error as { code?: number; message?: string };
+
+    // gRPC status codes:
+    // 5 = NOT_FOUND
+    // 7 = PERMISSION_DENIED
+    if (grpcError.code === 5) {
+      return new SecretNotFoundError(name, this.name, version);
+    }
+
+    if (grpcError.code === 7) {
+      return new SecretAccessDeniedError(name, this.name, grpcError.message);
+    }
+
+    // Log and re-throw unexpected errors
+    this.logger.error(
+      `Unexpected error ${action} '${name}': ${grpcError.message}`,
+      error,
+    );
+    return error;
+  }
+
+  /**
+   * Get the resource name of a secret.
+   * Full resource names (projects/<project>/secrets/<name>) are used as-is.
+   */
+  private getSecretName(name: string): string {
+    return name.startsWith('projects/')
+      ? name
+      : `projects/${this.projectId}/secrets/${name}`;
   }
 }
@@ -1,11 +1,22 @@
 import { SecretNotFoundError } from '../errors/secret-not-found.error';
-import { SecretBackend } from '../interfaces/secret-backend.interface';
+import {
+  SecretBackend,
+  SecretBackendValue,
+  SecretListOptions,
+  SecretListPage,
+  SecretVersionInfo,
+} from '../interfaces/secret-backend.interface';
+
+type InactiveVersionState = 'disabled' | 'destroyed';
 
 /**
  * In-memory backend for testing and local development.
  *
  * Secrets can be preloaded via the constructor or set dynamically
  * using the `set()` method.
+ *
+ * Versions added with `addVersion()` are numbered from 1, and 'latest'
+ * resolves to the most recently added one, mirroring GCP Secret Manager.
  */
 export class InMemorySecretBackend implements SecretBackend {
   readonly name = 'memory';
@@ -13,6 +24,18 @@ export class InMemorySecretBackend implements SecretBackend {
   // Map of secret name -> Map of version -> value
   private readonly secrets = new Map<string, Map<string, string>>();
 
+  // Map of secret name -> version that 'latest' resolves to
+  private readonly latestVersions = new Map<string, string>();
+
+  // Map of secret name -> Map of version -> create time, in creation order
+  private readonly createTimes = new Map<string, Map<string, Date>>();
+
+  // Map of secret name -> Map of version -> state, for inactive versions
+  private readonly inactiveVersions = new Map<
+    string,
+    Map<string, InactiveVersionState>
+  >();
+
   /**
    * Create an in-memory backend with optional initial secrets.
    *
@@ -38,6 +61,16 @@ export class InMemorySecretBackend implements SecretBackend {
       this.secrets.set(name, new Map());
     }
     this.secrets.get(name)!.set(version, value);
+    this.inactiveVersions.get(name)?.delete(version);
+
+    const createTimes = this.createTimes.get(name) ?? new Map<string, Date>();
+    createTimes.delete(version);
+    createTimes.set(version, new Date());
+    this.createTimes.set(name, createTimes);
+
+    if (version === 'latest') {
+      this.latestVersions.delete(name);
+    }
   }
 
   async get(name: string, version?: string): Promise<string> {
@@ -50,17 +83,109 @@ export class InMemorySecretBackend implements SecretBackend {
     const versionId = version ?? 'latest';
     const value = secretVersions.get(versionId);
 
-    if (value === undefined) {
+    if (
+      value === undefined ||
+      this.inactiveVersions.get(name)?.has(this.resolveVersion(name, versionId))
+    ) {
       throw new SecretNotFoundError(name, this.name, version);
     }
 
     return value;
   }
 
+  async getWithMetadata(
+    name: string,
+    version?: string,
+  ): Promise<SecretBackendValue> {
+    const value = await this.get(name, version);
+    return { value, version: this.resolveVersion(name, version ?? 'latest') };
+  }
+
   async getLatest(name: string): Promise<string> {
     return this.get(name, 'latest');
   }
 
+  async createSecret(name: string): Promise<void> {
+    if (this.secrets.has(name)) {
+      throw new Error(`Secret '${name}' already exists`);
+    }
+
+    this.secrets.set(name, new Map());
+  }
+
+  async addVersion(name: string, value: string): Promise<string> {
+    const secretVersions = this.secrets.get(name);
+
+    if (!secretVersions) {
+      throw new SecretNotFoundError(name, this.name);
+    }
+
+    const numbered = [
+      ...secretVersions.keys(),
+      ...(this.inactiveVersions.get(name)?.keys() ?? []),
+    ].filter((versionId) => /^\d+$/.test(versionId));
+    const version = String(Math.max(0, ...numbered.map(Number)) + 1);
+
+    this.set(name, value, version);
+    this.set(name, value);
+    this.latestVersions.set(name, version);
+
+    return version;
+  }
+
+  async disableVersion(name: string, version: string): Promise<void> {
+    this.setInactive(name, version, 'disabled');
+  }
+
+  async destroyVersion(name: string, version: string): Promise<void> {
+    const versionId = this.setInactive(name, version, 'destroyed');
+    const secretVersions = this.secrets.get(name)!;
+
+    secretVersions.delete(versionId);
+    if (this.latestVersions.get(name) === versionId) {
+      secretVersions.delete('latest');
+    }
+  }
+
+  /**
+   * List secret names in alphabetical order.
+   * Page tokens are offsets into the list.
+   *
+   * @param options - Substring the names must contain, and page to list
+   */
+  async listSecrets(options: SecretListOptions = {}): Promise<SecretListPage> {
+    const names = this.getSecretNames()
+      .filter((name) => name.includes(options.filter ?? ''))
+      .sort();
+    const start = Number(options.pageToken ?? 0);
+    const end = start + (options.pageSize ?? names.length);
+
+    return {
+      secrets: names.slice(start, end).map((name) => ({ name })),
+      nextPageToken: end < names.length ? String(end) : undefined,
+    };
+  }
+
+  async listVersions(name: string): Promise<SecretVersionInfo[]> {
+    if (!this.secrets.has(name)) {
+      throw new SecretNotFoundError(name, this.name);
+    }
+
+    const states = this.inactiveVersions.get(name);
+    const versions = Array.from(this.createTimes.get(name) ?? [])
+      // 'latest' is an alias once versions are added
+      .filter(
+        ([version]) => version !== 'latest' || !this.latestVersions.has(name),
+      )
+      .map(([version, createTime]) => ({
+        version,
+        state: states?.get(version) ?? ('enabled' as const),
+        createTime,
+      }));
+
+    return versions.reverse();
+  }
+
   /**
    * Check if a secret exists.
    *
@@ -82,9 +207,15 @@ export class InMemorySecretBackend implements SecretBackend {
    */
   delete(name: string, version?: string): boolean {
     if (version === undefined) {
+      this.latestVersions.delete(name);
+      this.inactiveVersions.delete(name);
+      this.createTimes.delete(name);
       return this.secrets.delete(name);
     }
 
+    this.inactiveVersions.get(name)?.delete(version);
+    this.createTimes.get(name)?.delete(version);
+
     const secretVersions = this.secrets.get(name);
     if (!secretVersions) {
       return false;
@@ -94,7 +225,7 @@ export class InMemorySecretBackend implements SecretBackend {
 
     // Clean up empty version maps
     if (secretVersions.size === 0) {
-      this.secrets.delete(name);
+      this.delete(name);
     }
 
     return deleted;
@@ -105,6 +236,9 @@ export class InMemorySecretBackend implements SecretBackend {
    */
   clear(): void {
     this.secrets.clear();
+    this.latestVersions.clear();
+    this.inactiveVersions.clear();
+    this.createTimes.clear();
   }
 
   /**
@@ -120,4 +254,39 @@ export class InMemorySecretBackend implements SecretBackend {
   getSecretNames(): string[] {
     return Array.from(this.secrets.keys());
   }
+
+  /**
+   * Get the version that a version identifier refers to.
+   */
+  private resolveVersion(name: string, version: string): string {
+    return version === 'latest'
+      ? (this.latestVersions.get(name) ?? version)
+      : version;
+  }
+
+  /**
+   * Mark an active version as disabled or destroyed.
+   *
+   * @returns The version that was marked
+   * @throws SecretNotFoundError if the version doesn't exist or is destroyed
+   */
+  private setInactive(
+    name: string,
+    version: string,
+    state: InactiveVersionState,
+  ): string {
+    const versionId = this.resolveVersion(name, version);
+    const states = this.inactiveVersions.get(name) ?? new Map();
+
+    if (
+      !this.secrets.get(name)?.has(versionId) ||
+      states.get(versionId) === 'destroyed'
+    ) {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    states.set(versionId, state);
+    this.inactiveVersions.set(name, states);
+    return versionId;
+  }
 }
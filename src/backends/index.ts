@@ -1,2 +1,7 @@
+export * from './aws-secrets-manager.backend';
+export * from './chained.backend';
+export * from './env.backend';
+export * from './file.backend';
 export * from './gcp-secret-manager.backend';
 export * from './in-memory.backend';
+export * from './vault-kv.backend';
@@ -0,0 +1,356 @@
+import { Logger } from '@nestjs/common';
+
+import { SecretAccessDeniedError } from '../errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../errors/secret-not-found.error';
+import {
+  SecretBackend,
+  SecretBackendValue,
+} from '../interfaces/secret-backend.interface';
+
+/**
+ * Authenticate to Vault with a static token.
+ */
+export interface VaultTokenAuth {
+  type: 'token';
+  token: string;
+
+  /**
+   * Whether to periodically renew the token via `auth/token/renew-self`.
+   * @default false
+   */
+  renew?: boolean;
+}
+
+/**
+ * Authenticate to Vault with AppRole credentials.
+ */
+export interface VaultAppRoleAuth {
+  type: 'approle';
+  roleId: string;
+  secretId: string;
+
+  /**
+   * Mount path of the AppRole auth method.
+   * @default 'approle'
+   */
+  mountPath?: string;
+}
+
+/**
+ * Options for the HashiCorp Vault KV v2 backend.
+ */
+export interface VaultKvBackendOptions {
+  /**
+   * Vault server address (e.g., 'https://vault.internal:8200').
+   */
+  address: string;
+
+  /**
+   * Authentication method.
+   */
+  auth: VaultTokenAuth | VaultAppRoleAuth;
+
+  /**
+   * Mount path of the KV v2 secrets engine.
+   * @default 'secret'
+   */
+  mountPath?: string;
+
+  /**
+   * Field to select from the secret's data map.
+   * If not set, single-field secrets return that field's value and
+   * multi-field secrets return the whole data map as JSON.
+   */
+  field?: string;
+
+  /**
+   * Vault Enterprise namespace.
+   */
+  namespace?: string;
+}
+
+/**
+ * Auth block returned by Vault login and renewal endpoints.
+ */
+interface VaultAuthResponse {
+  client_token: string;
+  lease_duration: number;
+  renewable: boolean;
+}
+
+/**
+ * Backend implementation for HashiCorp Vault's KV v2 secrets engine.
+ *
+ * Versions map to KV v2 version numbers; 'latest' reads the current version.
+ * Tokens obtained via AppRole (or static tokens with `renew` enabled) are
+ * renewed in the background before their lease expires.
+ */
+export class VaultKvBackend implements SecretBackend {
+  readonly name = 'vault';
+  private readonly address: string;
+  private readonly mountPath: string;
+  private readonly logger = new Logger(VaultKvBackend.name);
+  private token?: string;
+  private authenticating?: Promise<string>;
+  private renewTimer?: NodeJS.Timeout;
+
+  constructor(private readonly options: VaultKvBackendOptions) {
+    this.address = options.address.replace(/\/+$/, '');
+    this.mountPath = (options.mountPath ?? 'secret').replace(/^\/+|\/+$/g, '');
+  }
+
+  async get(name: string, version?: string): Promise<string> {
+    return (await this.getWithMetadata(name, version)).value;
+  }
+
+  /**
+   * Fetch a secret with the KV version number and creation time of the
+   * version it resolved to.
+   */
+  async getWithMetadata(
+    name: string,
+    version?: string,
+  ): Promise<SecretBackendValue> {
+    const versionId = version ?? 'latest';
+
+    if (versionId !== 'latest' && !/^\d+$/.test(versionId)) {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    this.logger.debug(
+      `Fetching secret from Vault: ${name} (version: ${versionId})`,
+    );
+
+    const query = versionId === 'latest' ? '' : `?version=${versionId}`;
+    const secretPath = name.split('/').map(encodeURIComponent).join('/');
+    const path = `${this.mountPath}/data/${secretPath}${query}`;
+    let response = await this.request('GET', path, await this.getToken());
+
+    // AppRole tokens may have expired since the last renewal, so log in
+    // again once before treating the request as denied.
+    if (response.status === 403 && this.options.auth.type === 'approle') {
+      this.token = undefined;
+      response = await this.request('GET', path, await this.getToken());
+    }
+
+    if (response.status === 404) {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    if (response.status === 403) {
+      throw new SecretAccessDeniedError(
+        name,
+        this.name,
+        await this.readErrors(response),
+      );
+    }
+
+    if (!response.ok) {
+      const message = `Vault returned status ${response.status}: ${await this.readErrors(response)}`;
+      this.logger.error(
+        `Unexpected error fetching secret '${name}': ${message}`,
+      );
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+
+    const body = (await response.json()) as {
+      data?: {
+        data?: Record<string, unknown> | null;
+        metadata?: { version?: number; created_time?: string };
+      };
+    };
+    const data = body.data?.data;
+
+    if (!data) {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    const metadata = body.data?.metadata;
+    return {
+      value: this.selectField(name, data, version),
+      version: metadata?.version?.toString(),
+      createTime: metadata?.created_time
+        ? new Date(metadata.created_time)
+        : undefined,
+    };
+  }
+
+  async getLatest(name: string): Promise<string> {
+    return this.get(name, 'latest');
+  }
+
+  /**
+   * Stop background token renewal.
+   */
+  close(): void {
+    clearTimeout(this.renewTimer);
+    this.renewTimer = undefined;
+  }
+
+  /**
+   * Select the configured field from a secret's data map.
+   */
+  private selectField(
+    name: string,
+    data: Record<string, unknown>,
+    version?: string,
+  ): string {
+    const keys = Object.keys(data);
+    let value: unknown;
+
+    if (this.options.field !== undefined) {
+      value = data[this.options.field];
+    } else if (keys.length === 1) {
+      value = data[keys[0]!];
+    } else {
+      value = data;
+    }
+
+    if (value === undefined) {
+      throw new SecretNotFoundError(name, this.name, version);
+    }
+
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  /**
+   * Get a valid token, authenticating if needed.
+   * Concurrent callers share a single login request.
+   */
+  private async getToken(): Promise<string> {
+    if (this.token) {
+      return this.token;
+    }
+
+    if (!this.authenticating) {
+      this.authenticating = this.authenticate().finally(() => {
+        this.authenticating = undefined;
+      });
+    }
+
+    return this.authenticating;
+  }
+
+  private async authenticate(): Promise<string> {
+    const auth = this.options.auth;
+
+    if (auth.type === 'token') {
+      this.token = auth.token;
+      if (auth.renew) {
+        await this.renew();
+      }
+      return auth.token;
+    }
+
+    const mountPath = auth.mountPath ?? 'approle';
+    const response = await this.request(
+      'POST',
+      `auth/${mountPath}/login`,
+      undefined,
+      {
+        role_id: auth.roleId,
+        secret_id: auth.secretId,
+      },
+    );
+
+    if (!response.ok) {
+      const reason = await this.readErrors(response);
+      throw new Error(
+        `Vault AppRole login failed (${response.status}): ${reason}`,
+      );
+    }
+
+    const body = (await response.json()) as { auth: VaultAuthResponse };
+    this.applyAuth(body.auth);
+    this.logger.log('Authenticated to Vault via AppRole');
+
+    return body.auth.client_token;
+  }
+
+  /**
+   * Renew the current token and schedule the next renewal.
+   */
+  private async renew(): Promise<void> {
+    const token = this.token;
+    if (!token) {
+      return;
+    }
+
+    const response = await this.request('POST', 'auth/token/renew-self', token);
+
+    if (!response.ok) {
+      const reason = await this.readErrors(response);
+      this.logger.error(
+        `Vault token renewal failed (${response.status}): ${reason}`,
+      );
+
+      // AppRole can log in again on the next request
+      if (this.options.auth.type === 'approle') {
+        this.token = undefined;
+      }
+      return;
+    }
+
+    const body = (await response.json()) as { auth: VaultAuthResponse };
+    this.applyAuth(body.auth);
+  }
+
+  /**
+   * Store a token and schedule its renewal at two thirds of its lease.
+   */
+  private applyAuth(auth: VaultAuthResponse): void {
+    this.token = auth.client_token;
+    this.close();
+
+    if (!auth.renewable || auth.lease_duration <= 0) {
+      return;
+    }
+
+    this.renewTimer = setTimeout(
+      () => {
+        this.renew().catch((error: Error) => {
+          this.logger.error(`Vault token renewal failed: ${error.message}`);
+        });
+      },
+      (auth.lease_duration * 1000 * 2) / 3,
+    );
+    this.renewTimer.unref();
+  }
+
+  private async request(
+    method: 'GET' | 'POST',
+    path: string,
+    token?: string,
+    body?: unknown,
+  ): Promise<Response> {
+    const headers: Record<string, string> = {};
+
+    if (token) {
+      headers['X-Vault-Token'] = token;
+    }
+    if (this.options.namespace) {
+      headers['X-Vault-Namespace'] = this.options.namespace;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return fetch(`${this.address}/v1/${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  /**
+   * Read the error list from a Vault error response.
+   */
+  private async readErrors(response: Response): Promise<string> {
+    try {
+      const body = (await response.json()) as { errors?: string[] };
+      return body.errors?.join(', ') || response.statusText;
+    } catch {
+      return response.statusText;
+    }
+  }
+}
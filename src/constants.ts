@@ -1,10 +1,21 @@
-import { InjectSecretOptions } from './interfaces/secret-manager-options.interface';
+import { Type } from '@nestjs/common';
+
+import {
+  InjectSecretOptions,
+  SecretTransform,
+} from './interfaces/secret-manager-options.interface';
+import { resolveSecretReference } from './secret-reference';
 
 /**
  * Injection token for the SecretManagerModuleOptions.
  */
 export const SECRET_MANAGER_OPTIONS = Symbol('SECRET_MANAGER_OPTIONS');
 
+/**
+ * Metadata key for methods decorated with @OnSecretRotated.
+ */
+export const SECRET_ROTATED_METADATA = 'secret-manager:on-secret-rotated';
+
 /**
  * Prefix for secret injection tokens.
  */
@@ -17,25 +28,108 @@ export interface SecretRequirement {
   name: string;
   version?: string;
   backend?: string;
+  field?: string;
+  transform?: SecretTransform;
+  redact?: boolean;
   token: string;
 }
 
+/**
+ * A class property declared with the @Secret decorator.
+ */
+export interface SecretPropertyDefinition {
+  propertyKey: string | symbol;
+  name: string;
+  options?: InjectSecretOptions;
+}
+
+/**
+ * Represents a registered secrets class injected via @InjectSecrets.
+ */
+export interface SecretClassRequirement {
+  type: Type;
+  token: symbol;
+  properties: Array<{ propertyKey: string | symbol; token: string }>;
+}
+
+// @Secret property definitions, keyed by class
+const secretProperties = new WeakMap<object, SecretPropertyDefinition[]>();
+
+// Injection tokens for secrets classes, keyed by class
+const secretClassTokens = new WeakMap<object, symbol>();
+
+/**
+ * Record a @Secret property definition on a class.
+ */
+export function defineSecretProperty(
+  type: object,
+  definition: SecretPropertyDefinition,
+): void {
+  const definitions = secretProperties.get(type) ?? [];
+  definitions.push(definition);
+  secretProperties.set(type, definitions);
+}
+
+/**
+ * Get the @Secret property definitions of a class, including inherited ones.
+ */
+export function getSecretProperties(type: Type): SecretPropertyDefinition[] {
+  const definitions: SecretPropertyDefinition[] = [];
+
+  for (
+    let current: object | null = type;
+    current && current !== Function.prototype;
+    current = Object.getPrototypeOf(current)
+  ) {
+    for (const definition of secretProperties.get(current) ?? []) {
+      if (!definitions.some((d) => d.propertyKey === definition.propertyKey)) {
+        definitions.push(definition);
+      }
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Get the injection token for a secrets class.
+ */
+export function getSecretsToken(type: Type): symbol {
+  let token = secretClassTokens.get(type);
+  if (!token) {
+    token = Symbol(`SECRETS_${type.name}`);
+    secretClassTokens.set(type, token);
+  }
+  return token;
+}
+
 /**
  * Registry of all secrets that need to be validated at startup
  * and provided as injectable dependencies.
  */
 class SecretRegistry {
   private readonly secrets = new Map<string, SecretRequirement>();
+  private readonly classes = new Map<Type, SecretClassRequirement>();
+  private readonly refs = new Map<string, SecretRequirement>();
 
   /**
    * Register a secret requirement.
+   * The name may be a URI-style reference (e.g., 'gcp://db-password#3').
    */
   register(name: string, options?: InjectSecretOptions): SecretRequirement {
+    const resolved = resolveSecretReference(
+      name,
+      options?.version,
+      options?.backend,
+    );
     const token = getSecretToken(name, options);
     const requirement: SecretRequirement = {
-      name,
-      version: options?.version,
-      backend: options?.backend,
+      name: resolved.name,
+      version: resolved.version,
+      backend: resolved.backend,
+      field: options?.field,
+      transform: options?.transform,
+      redact: options?.redact,
       token,
     };
 
@@ -43,6 +137,48 @@ class SecretRegistry {
     return requirement;
   }
 
+  /**
+   * Register a secret requirement injected as a live SecretRef.
+   * The secret itself is registered too, so it is validated at startup.
+   *
+   * @returns The requirement, with the token of the SecretRef provider
+   */
+  registerRef(name: string, options?: InjectSecretOptions): SecretRequirement {
+    const requirement = this.register(name, options);
+    const refRequirement: SecretRequirement = {
+      ...requirement,
+      token: getSecretRefToken(name, options),
+    };
+
+    this.refs.set(refRequirement.token, refRequirement);
+    return refRequirement;
+  }
+
+  /**
+   * Register a secrets class and each of its @Secret properties.
+   */
+  registerClass(type: Type): SecretClassRequirement {
+    const definitions = getSecretProperties(type);
+
+    if (definitions.length === 0) {
+      throw new Error(
+        `Cannot inject secrets class '${type.name}': it has no @Secret properties`,
+      );
+    }
+
+    const requirement: SecretClassRequirement = {
+      type,
+      token: getSecretsToken(type),
+      properties: definitions.map((definition) => ({
+        propertyKey: definition.propertyKey,
+        token: this.register(definition.name, definition.options).token,
+      })),
+    };
+
+    this.classes.set(type, requirement);
+    return requirement;
+  }
+
   /**
    * Get all registered secrets.
    */
@@ -51,11 +187,27 @@ class SecretRegistry {
   }
 
   /**
-   * Clear all registered secrets.
+   * Get all secrets registered for injection as SecretRefs.
+   */
+  getRefs(): SecretRequirement[] {
+    return Array.from(this.refs.values());
+  }
+
+  /**
+   * Get all registered secrets classes.
+   */
+  getClasses(): SecretClassRequirement[] {
+    return Array.from(this.classes.values());
+  }
+
+  /**
+   * Clear all registered secrets, SecretRefs and secrets classes.
    * Useful for testing.
    */
   clear(): void {
     this.secrets.clear();
+    this.refs.clear();
+    this.classes.clear();
   }
 
   /**
@@ -69,14 +221,64 @@ class SecretRegistry {
 // Global singleton registry
 export const secretRegistry = new SecretRegistry();
 
+// Stable identifiers for custom transform functions
+const customTransformIds = new WeakMap<object, number>();
+let nextCustomTransformId = 1;
+
+/**
+ * Get a token-safe key for a transform.
+ */
+function getTransformKey(transform: SecretTransform): string {
+  if (typeof transform === 'string') {
+    return transform;
+  }
+
+  let id = customTransformIds.get(transform);
+  if (id === undefined) {
+    id = nextCustomTransformId++;
+    customTransformIds.set(transform, id);
+  }
+  return `custom${id}`;
+}
+
 /**
  * Generate a unique injection token for a secret.
+ * Equivalent references (e.g., 'memory://api-key' and 'api-key' with
+ * `{ backend: 'memory' }`) resolve to the same token, while different
+ * fields, transforms or redaction of one secret get distinct tokens.
  */
 export function getSecretToken(
   name: string,
   options?: InjectSecretOptions,
 ): string {
-  const backend = options?.backend ?? 'default';
-  const version = options?.version ?? 'latest';
-  return `${SECRET_TOKEN_PREFIX}_${backend}_${name}_${version}`;
+  const resolved = resolveSecretReference(
+    name,
+    options?.version,
+    options?.backend,
+  );
+  const backend = resolved.backend ?? 'default';
+  const version = resolved.version ?? 'latest';
+  let token = `${SECRET_TOKEN_PREFIX}_${backend}_${resolved.name}_${version}`;
+
+  if (options?.field !== undefined) {
+    token += `_field=${options.field}`;
+  }
+  if (options?.transform !== undefined) {
+    token += `_transform=${getTransformKey(options.transform)}`;
+  }
+  if (options?.redact) {
+    token += '_redacted';
+  }
+
+  return token;
+}
+
+/**
+ * Generate a unique injection token for a SecretRef.
+ */
+export function getSecretRefToken(
+  name: string,
+  options?: InjectSecretOptions,
+): string {
+  return `${getSecretToken(name, options)}_ref`;
 }
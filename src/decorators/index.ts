@@ -1 +1,5 @@
 export * from './inject-secret.decorator';
+export * from './inject-secret-ref.decorator';
+export * from './inject-secrets.decorator';
+export * from './secret.decorator';
+export * from './on-secret-rotated.decorator';
@@ -0,0 +1,36 @@
+import { Inject } from '@nestjs/common';
+
+import { secretRegistry } from '../constants';
+import { InjectSecretOptions } from '../interfaces/secret-manager-options.interface';
+
+/**
+ * Parameter decorator to inject a live SecretRef handle.
+ *
+ * Unlike `@InjectSecret`, which injects a value fixed at bootstrap, the
+ * handle's `value` follows rotations of 'latest' secrets (see
+ * `rotationInterval`). The secret is validated at startup as usual.
+ *
+ * @param name - The secret name/identifier, or a reference such as 'gcp://db-password'
+ * @param options - Optional configuration (version, backend, field, transform)
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * class ApiClient {
+ *   constructor(@InjectSecretRef('api-key') private readonly apiKey: SecretRef) {}
+ *
+ *   request() {
+ *     return fetch(url, { headers: { Authorization: this.apiKey.value } });
+ *   }
+ * }
+ * ```
+ */
+export function InjectSecretRef(
+  name: string,
+  options?: InjectSecretOptions,
+): ParameterDecorator {
+  // Register this secret for startup validation and provider creation
+  const requirement = secretRegistry.registerRef(name, options);
+
+  return Inject(requirement.token);
+}
@@ -7,10 +7,11 @@ import { InjectSecretOptions } from '../interfaces/secret-manager-options.interf
  * Parameter decorator to inject a secret value.
  *
  * The secret will be fetched from the configured backend during application
- * initialization and injected as a string value.
+ * initialization and injected as a string value, or parsed by the
+ * `transform` option (e.g., 'number', 'json', or a custom function).
  *
- * @param name - The secret name/identifier
- * @param options - Optional configuration (version, backend)
+ * @param name - The secret name/identifier, or a reference such as 'gcp://db-password#3'
+ * @param options - Optional configuration (version, backend, field, transform)
  *
  * @example
  * ```typescript
@@ -20,6 +21,9 @@ import { InjectSecretOptions } from '../interfaces/secret-manager-options.interf
  *     @InjectSecret('api-key') private readonly apiKey: string,
  *     @InjectSecret('db-password', { version: '2' }) private readonly dbPassword: string,
  *     @InjectSecret('legacy-key', { backend: 'memory' }) private readonly legacyKey: string,
+ *     @InjectSecret('env://SENTRY_DSN') private readonly sentryDsn: string,
+ *     @InjectSecret('db-credentials', { field: 'password' }) private readonly password: string,
+ *     @InjectSecret('db-port', { transform: 'number' }) private readonly dbPort: number,
  *   ) {}
  * }
  * ```
@@ -0,0 +1,31 @@
+import { Inject, Type } from '@nestjs/common';
+
+import { secretRegistry } from '../constants';
+
+/**
+ * Parameter decorator to inject a secrets class.
+ *
+ * The class must have a no-argument constructor and declare its fields with
+ * `@Secret`. It is injected as a frozen instance with every field populated.
+ *
+ * @param type - The secrets class
+ *
+ * @example
+ * ```typescript
+ * class DbSecrets {
+ *   @Secret('db-password') password!: string;
+ *   @Secret('db-port', { transform: 'number' }) port!: number;
+ * }
+ *
+ * @Injectable()
+ * class DbService {
+ *   constructor(@InjectSecrets(DbSecrets) private readonly secrets: DbSecrets) {}
+ * }
+ * ```
+ */
+export function InjectSecrets(type: Type): ParameterDecorator {
+  // Register the class and its fields for startup validation and provider creation
+  const requirement = secretRegistry.registerClass(type);
+
+  return Inject(requirement.token);
+}
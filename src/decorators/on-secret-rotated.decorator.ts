@@ -0,0 +1,26 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { SECRET_ROTATED_METADATA } from '../constants';
+
+/**
+ * Method decorator subscribing a provider method to changes of a secret.
+ *
+ * The method is called with a `SecretChangeEvent` whenever the background
+ * refresh loop (see `rotationInterval`) detects a new 'latest' value.
+ *
+ * @param name - The secret name, or a reference such as 'gcp://db-password'
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * class DbPool {
+ *   @OnSecretRotated('db-password')
+ *   async reconnect(event: SecretChangeEvent) {
+ *     await this.pool.reconnect({ password: event.value });
+ *   }
+ * }
+ * ```
+ */
+export function OnSecretRotated(name: string): MethodDecorator {
+  return SetMetadata(SECRET_ROTATED_METADATA, name);
+}
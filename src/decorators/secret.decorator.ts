@@ -0,0 +1,29 @@
+import { defineSecretProperty } from '../constants';
+import { InjectSecretOptions } from '../interfaces/secret-manager-options.interface';
+
+/**
+ * Property decorator declaring a secret field on a secrets class.
+ *
+ * The class is injected as a fully populated, frozen instance via
+ * `@InjectSecrets()`. Each field is validated at startup like a secret
+ * injected with `@InjectSecret`.
+ *
+ * @param name - The secret name/identifier, or a reference such as 'gcp://db-password#3'
+ * @param options - Optional configuration (version, backend, field, transform)
+ *
+ * @example
+ * ```typescript
+ * class DbSecrets {
+ *   @Secret('db-password') password!: string;
+ *   @Secret('db-port', { transform: 'number' }) port!: number;
+ * }
+ * ```
+ */
+export function Secret(
+  name: string,
+  options?: InjectSecretOptions,
+): PropertyDecorator {
+  return (target, propertyKey) => {
+    defineSecretProperty(target.constructor, { propertyKey, name, options });
+  };
+}
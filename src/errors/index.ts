@@ -1,2 +1,7 @@
 export * from './secret-not-found.error';
 export * from './secret-access-denied.error';
+export * from './secret-field.error';
+export * from './secret-transform.error';
+export * from './secret-backend-timeout.error';
+export * from './secret-circuit-open.error';
+export * from './secret-operation-not-supported.error';
@@ -0,0 +1,16 @@
+/**
+ * Error thrown when a backend does not answer within the configured timeout.
+ */
+export class SecretBackendTimeoutError extends Error {
+  public readonly name = 'SecretBackendTimeoutError';
+
+  constructor(
+    public readonly secretName: string,
+    public readonly backend: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(
+      `Timed out after ${timeoutMs}ms fetching secret '${secretName}' from backend '${backend}'`,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Error thrown when a backend's circuit breaker is open and the
+ * request is rejected without calling the backend.
+ */
+export class SecretCircuitOpenError extends Error {
+  public readonly name = 'SecretCircuitOpenError';
+
+  constructor(
+    public readonly secretName: string,
+    public readonly backend: string,
+    public readonly retryAfterMs: number,
+  ) {
+    super(
+      `Circuit breaker open for backend '${backend}', not fetching secret '${secretName}' (retry in ${retryAfterMs}ms)`,
+    );
+  }
+}
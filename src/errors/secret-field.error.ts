@@ -0,0 +1,18 @@
+/**
+ * Error thrown when a field cannot be extracted from a structured secret,
+ * either because the secret is not valid JSON or the field is missing.
+ */
+export class SecretFieldError extends Error {
+  public readonly name = 'SecretFieldError';
+
+  constructor(
+    public readonly secretName: string,
+    public readonly backend: string,
+    public readonly field: string,
+    public readonly reason: string,
+  ) {
+    super(
+      `Cannot extract field '${field}' from secret '${secretName}' in backend '${backend}': ${reason}`,
+    );
+  }
+}
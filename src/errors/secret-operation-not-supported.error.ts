@@ -0,0 +1,14 @@
+/**
+ * Error thrown when a backend does not implement an operation
+ * (e.g., adding a version to the 'env' backend).
+ */
+export class SecretOperationNotSupportedError extends Error {
+  public readonly name = 'SecretOperationNotSupportedError';
+
+  constructor(
+    public readonly operation: string,
+    public readonly backend: string,
+  ) {
+    super(`Secret backend '${backend}' does not support ${operation}`);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Error thrown when a secret value cannot be parsed by its transform.
+ */
+export class SecretTransformError extends Error {
+  public readonly name = 'SecretTransformError';
+
+  constructor(
+    public readonly secretName: string,
+    public readonly backend: string,
+    public readonly transform: string,
+    public readonly reason: string,
+  ) {
+    super(
+      `Cannot apply transform '${transform}' to secret '${secretName}' in backend '${backend}': ${reason}`,
+    );
+  }
+}
@@ -4,28 +4,119 @@ export { SecretManagerModule } from './secret-manager.module';
 // Service
 export { SecretManagerService } from './secret-manager.service';
 
-// Decorator
+// Decorators
 export { InjectSecret } from './decorators/inject-secret.decorator';
+export { InjectSecretRef } from './decorators/inject-secret-ref.decorator';
+export { InjectSecrets } from './decorators/inject-secrets.decorator';
+export { Secret } from './decorators/secret.decorator';
+export { OnSecretRotated } from './decorators/on-secret-rotated.decorator';
 
 // Interfaces
-export { SecretBackend } from './interfaces/secret-backend.interface';
+export {
+  SecretBackend,
+  SecretBackendRequest,
+  SecretBackendValue,
+  SecretCreateOptions,
+  SecretInfo,
+  SecretListOptions,
+  SecretListPage,
+  SecretVersionInfo,
+  SecretVersionMetadata,
+  SecretVersionState,
+} from './interfaces/secret-backend.interface';
+export { SecretWithMetadata } from './interfaces/secret-metadata.interface';
+export {
+  SecretCacheEntry,
+  SecretCacheStore,
+  SecretCacheStoreStats,
+} from './interfaces/secret-cache-store.interface';
+export {
+  SecretBatchResult,
+  SecretRequest,
+} from './interfaces/secret-batch.interface';
+export {
+  InvalidationTransport,
+  SecretInvalidationListener,
+  SecretInvalidationMessage,
+  SecretInvalidationOptions,
+} from './interfaces/invalidation-transport.interface';
+export {
+  SecretChangeEvent,
+  SecretChangeListener,
+} from './interfaces/secret-change-event.interface';
 export {
   SecretManagerModuleOptions,
   SecretManagerModuleAsyncOptions,
   SecretManagerOptionsFactory,
   InjectSecretOptions,
+  SecretValueOptions,
+  SecretTransform,
+  SecretCacheMode,
+  SecretBackendResilienceOptions,
+  SecretCircuitBreakerOptions,
+  SecretSnapshotOptions,
 } from './interfaces/secret-manager-options.interface';
 
 // Errors
 export { SecretNotFoundError } from './errors/secret-not-found.error';
 export { SecretAccessDeniedError } from './errors/secret-access-denied.error';
+export { SecretFieldError } from './errors/secret-field.error';
+export { SecretTransformError } from './errors/secret-transform.error';
+export { SecretBackendTimeoutError } from './errors/secret-backend-timeout.error';
+export { SecretCircuitOpenError } from './errors/secret-circuit-open.error';
+export { SecretOperationNotSupportedError } from './errors/secret-operation-not-supported.error';
 
 // Backends
+export {
+  AwsSecretsManagerBackend,
+  AwsSecretsManagerBackendOptions,
+  AwsSecretsManagerClient,
+} from './backends/aws-secrets-manager.backend';
+export { ChainedSecretBackend } from './backends/chained.backend';
+export {
+  EnvSecretBackend,
+  EnvSecretBackendOptions,
+} from './backends/env.backend';
+export {
+  FileSecretBackend,
+  FileSecretBackendOptions,
+  FileSecretChangeListener,
+} from './backends/file.backend';
 export { GcpSecretManagerBackend } from './backends/gcp-secret-manager.backend';
 export { InMemorySecretBackend } from './backends/in-memory.backend';
+export {
+  VaultKvBackend,
+  VaultKvBackendOptions,
+  VaultTokenAuth,
+  VaultAppRoleAuth,
+} from './backends/vault-kv.backend';
+
+// Live secret handles
+export { SecretRef, SecretRefValue } from './secret-ref';
+
+// Redacted secret values
+export { RedactedSecret } from './redacted-secret';
+
+// Log redaction
+export { RedactingLogger } from './redacting-logger';
+
+// Secret references
+export {
+  ParsedSecretReference,
+  isSecretReference,
+  parseSecretReference,
+} from './secret-reference';
 
 // Cache (for advanced use cases)
-export { SecretCache } from './secret-cache';
+export { SecretCache, SecretCacheStats } from './secret-cache';
+export {
+  InMemorySecretCacheStore,
+  InMemorySecretCacheStoreOptions,
+  SecretCacheLimits,
+} from './stores/in-memory-cache.store';
+
+// Invalidation transports
+export { EventEmitterInvalidationTransport } from './transports/event-emitter-invalidation.transport';
 
 // Constants (for testing)
 export { secretRegistry, SECRET_MANAGER_OPTIONS } from './constants';
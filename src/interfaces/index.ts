@@ -1,2 +1,7 @@
 export * from './secret-backend.interface';
 export * from './secret-manager-options.interface';
+export * from './secret-change-event.interface';
+export * from './secret-batch.interface';
+export * from './secret-cache-store.interface';
+export * from './secret-metadata.interface';
+export * from './invalidation-transport.interface';
@@ -0,0 +1,68 @@
+/**
+ * A cache invalidation broadcast to other instances.
+ */
+export interface SecretInvalidationMessage {
+  /**
+   * Identifies the instance that published the invalidation.
+   */
+  origin: string;
+
+  /**
+   * Backend whose cached secrets are invalidated.
+   */
+  backend: string;
+
+  /**
+   * Secret name, or undefined to invalidate every secret of the backend.
+   */
+  name?: string;
+
+  /**
+   * Secret version, or undefined to invalidate every version.
+   */
+  version?: string;
+}
+
+/**
+ * Listener notified of invalidations published by any instance.
+ */
+export type SecretInvalidationListener = (
+  message: SecretInvalidationMessage,
+) => void;
+
+/**
+ * Broadcasts cache invalidations between instances (e.g., replicas
+ * sharing a message bus), so that a rotated secret is dropped everywhere.
+ *
+ * Messages carry secret names and versions only, never values.
+ */
+export interface InvalidationTransport {
+  /**
+   * Broadcast an invalidation to all subscribers, including the publisher.
+   */
+  publish(message: SecretInvalidationMessage): void | Promise<void>;
+
+  /**
+   * Subscribe to invalidations.
+   *
+   * @returns A function that removes the subscription
+   */
+  subscribe(
+    listener: SecretInvalidationListener,
+  ): (() => void) | Promise<() => void>;
+}
+
+/**
+ * Options for `SecretManagerService.invalidate()`.
+ */
+export interface SecretInvalidationOptions {
+  /**
+   * Version to invalidate. If not set, every cached version is invalidated.
+   */
+  version?: string;
+
+  /**
+   * Backend of the secret (uses default if not specified).
+   */
+  backend?: string;
+}
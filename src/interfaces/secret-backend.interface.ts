@@ -30,4 +30,229 @@ export interface SecretBackend {
    * @returns The secret value as a string
    */
   getLatest(name: string): Promise<string>;
+
+  /**
+   * Fetch a secret together with the metadata of the version it was read
+   * from. Optional; when missing, only the value is known.
+   *
+   * @param name - The secret name/identifier
+   * @param version - Optional version (defaults to 'latest')
+   * @returns The secret value and version metadata
+   * @throws SecretNotFoundError if the secret doesn't exist
+   * @throws SecretAccessDeniedError if access is denied
+   */
+  getWithMetadata?(name: string, version?: string): Promise<SecretBackendValue>;
+
+  /**
+   * Fetch the metadata of a specific version, without its value.
+   * Optional; for metadata that `getWithMetadata()` leaves out because it
+   * takes an extra call. Only called by `SecretManagerService.getWithMetadata()`.
+   *
+   * @param name - The secret name/identifier
+   * @param version - The version, as resolved by `getWithMetadata()`
+   * @returns The version metadata
+   */
+  describeVersion?(
+    name: string,
+    version: string,
+  ): Promise<SecretVersionMetadata>;
+
+  /**
+   * Fetch several secrets in one call.
+   * Optional; when missing, secrets are fetched with parallel `get()` calls.
+   *
+   * @param requests - The secrets to fetch
+   * @returns One settled result per request, in request order
+   */
+  getMany?(
+    requests: SecretBackendRequest[],
+  ): Promise<PromiseSettledResult<string>[]>;
+
+  /**
+   * Create a secret without any versions.
+   * Optional, like the other write operations; backends without them are
+   * read-only.
+   *
+   * @param name - The secret name/identifier
+   * @param options - Optional settings for the new secret
+   */
+  createSecret?(name: string, options?: SecretCreateOptions): Promise<void>;
+
+  /**
+   * Add a version to a secret, making it the latest version.
+   *
+   * @param name - The secret name/identifier
+   * @param value - The value of the new version
+   * @returns The ID of the new version
+   * @throws SecretNotFoundError if the secret doesn't exist
+   */
+  addVersion?(name: string, value: string): Promise<string>;
+
+  /**
+   * Disable a version, so that it can no longer be read.
+   *
+   * @param name - The secret name/identifier
+   * @param version - The version to disable
+   * @throws SecretNotFoundError if the version doesn't exist
+   */
+  disableVersion?(name: string, version: string): Promise<void>;
+
+  /**
+   * Irreversibly destroy the value of a version.
+   *
+   * @param name - The secret name/identifier
+   * @param version - The version to destroy
+   * @throws SecretNotFoundError if the version doesn't exist
+   */
+  destroyVersion?(name: string, version: string): Promise<void>;
+
+  /**
+   * List the secrets of the backend, one page at a time.
+   * Optional; backends without it cannot be listed.
+   *
+   * @param options - Filter and page to list
+   * @returns One page of secrets
+   */
+  listSecrets?(options?: SecretListOptions): Promise<SecretListPage>;
+
+  /**
+   * List all versions of a secret, newest first.
+   * Optional; backends without it cannot be listed.
+   *
+   * @param name - The secret name/identifier
+   * @returns The versions, including disabled and destroyed ones
+   * @throws SecretNotFoundError if the secret doesn't exist
+   */
+  listVersions?(name: string): Promise<SecretVersionInfo[]>;
+
+  /**
+   * Release resources held by the backend (e.g., file watchers, timers).
+   * Called when the module is destroyed.
+   */
+  close?(): void | Promise<void>;
+}
+
+/**
+ * A secret requested from a backend's batch `getMany()`.
+ */
+export interface SecretBackendRequest {
+  name: string;
+  version?: string;
+}
+
+/**
+ * Options for creating a secret.
+ */
+export interface SecretCreateOptions {
+  /**
+   * Labels to attach to the secret, where the backend supports them.
+   */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Metadata of a secret version, as reported by its backend.
+ * Fields the backend does not report are left unset.
+ */
+export interface SecretVersionMetadata {
+  /**
+   * Version the request resolved to (e.g., '7' when 'latest' was requested).
+   */
+  version?: string;
+
+  /**
+   * When the version was created.
+   */
+  createTime?: Date;
+
+  /**
+   * Entity tag of the version.
+   */
+  etag?: string;
+
+  /**
+   * Checksum of the value computed by the backend (e.g., CRC32C for GCP).
+   */
+  checksum?: string;
+}
+
+/**
+ * A secret value returned by a backend's `getWithMetadata()`.
+ */
+export interface SecretBackendValue extends SecretVersionMetadata {
+  value: string;
+
+  /**
+   * Backend that served the value, for backends delegating to others
+   * (e.g., the chained backend). Defaults to the backend itself.
+   */
+  backend?: string;
+}
+
+/**
+ * Options for listing secrets.
+ */
+export interface SecretListOptions {
+  /**
+   * Backend-specific filter expression (e.g., 'labels.team=payments' for
+   * GCP). The in-memory backend lists names containing the filter.
+   */
+  filter?: string;
+
+  /**
+   * Token of the page to list, from a previous page's `nextPageToken`.
+   */
+  pageToken?: string;
+
+  /**
+   * Maximum number of secrets per page. Defaults to the backend's page size.
+   */
+  pageSize?: number;
+}
+
+/**
+ * A page of listed secrets.
+ */
+export interface SecretListPage {
+  secrets: SecretInfo[];
+
+  /**
+   * Token of the next page, or undefined on the last page.
+   */
+  nextPageToken?: string;
+}
+
+/**
+ * A listed secret.
+ */
+export interface SecretInfo {
+  name: string;
+
+  /**
+   * When the secret was created, if reported by the backend.
+   */
+  createTime?: Date;
+
+  /**
+   * Labels attached to the secret, if any.
+   */
+  labels?: Record<string, string>;
+}
+
+/**
+ * State of a secret version. Only enabled versions can be read.
+ */
+export type SecretVersionState = 'enabled' | 'disabled' | 'destroyed';
+
+/**
+ * A listed secret version.
+ */
+export interface SecretVersionInfo {
+  version: string;
+  state: SecretVersionState;
+
+  /**
+   * When the version was created, if reported by the backend.
+   */
+  createTime?: Date;
 }
@@ -0,0 +1,27 @@
+import { InjectSecretOptions } from './secret-manager-options.interface';
+
+/**
+ * A secret requested through `SecretManagerService.getMany()`.
+ */
+export interface SecretRequest extends InjectSecretOptions {
+  /**
+   * Secret name, or a reference such as 'gcp://db-password#3'.
+   */
+  name: string;
+}
+
+/**
+ * Outcome of `SecretManagerService.getMany()`, keyed like the requests.
+ * Every request ends up in exactly one of `values` and `errors`.
+ */
+export interface SecretBatchResult<T = unknown> {
+  /**
+   * Values of the secrets that were fetched successfully.
+   */
+  values: Record<string, T>;
+
+  /**
+   * Errors of the secrets that could not be fetched.
+   */
+  errors: Record<string, Error>;
+}
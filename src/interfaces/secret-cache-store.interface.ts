@@ -0,0 +1,105 @@
+/**
+ * A cached secret value.
+ */
+export interface SecretCacheEntry {
+  /**
+   * The secret value.
+   */
+  value: string;
+
+  /**
+   * When the value was cached, in milliseconds since the epoch.
+   */
+  cachedAt: number;
+}
+
+/**
+ * Size statistics reported by a cache store.
+ */
+export interface SecretCacheStoreStats {
+  /**
+   * Number of stored entries.
+   */
+  size: number;
+
+  /**
+   * Total size of stored keys and values, in bytes.
+   */
+  bytes?: number;
+
+  /**
+   * Entries removed to stay within the store's size limits.
+   */
+  evictions?: number;
+}
+
+/**
+ * Storage for cached secrets.
+ *
+ * Implement this interface to share the cache between processes
+ * (e.g., through Redis) or to instrument it in tests. Methods may be
+ * synchronous or return promises. Expiry is handled by the caller from
+ * `cachedAt`, so stores only need to keep entries for at least `ttlMs`,
+ * and until they are deleted when no `ttlMs` is given.
+ *
+ * Failing calls are treated as cache misses; they never fail secret access.
+ */
+export interface SecretCacheStore {
+  /**
+   * Get an entry by key.
+   *
+   * @param key - Cache key (backend:name:version)
+   * @returns The entry, or undefined if not stored
+   */
+  get(
+    key: string,
+  ): SecretCacheEntry | undefined | Promise<SecretCacheEntry | undefined>;
+
+  /**
+   * Store an entry.
+   *
+   * @param key - Cache key (backend:name:version)
+   * @param entry - The entry to store
+   * @param ttlMs - How long the entry may be served: a finite number of
+   *   milliseconds, or undefined if the entry never expires
+   */
+  set(
+    key: string,
+    entry: SecretCacheEntry,
+    ttlMs?: number,
+  ): void | Promise<void>;
+
+  /**
+   * Delete an entry.
+   *
+   * @param key - Cache key (backend:name:version)
+   * @returns True if the entry existed, if known
+   */
+  delete(key: string): boolean | void | Promise<boolean | void>;
+
+  /**
+   * Delete all entries.
+   */
+  clear(): void | Promise<void>;
+
+  /**
+   * List the stored keys.
+   * Optional; required for invalidating all versions of a secret and for
+   * sweeping expired entries.
+   */
+  keys?(): Iterable<string> | Promise<Iterable<string>>;
+
+  /**
+   * Register a listener called with the key of each entry the store evicts
+   * on its own (e.g., to stay within its size limits).
+   * Optional; data kept alongside cached entries, such as version metadata,
+   * is then only released when entries are deleted or cleared.
+   */
+  onEvict?(listener: (key: string) => void): void;
+
+  /**
+   * Report size statistics.
+   * Optional; included in `SecretManagerService.getStats()`.
+   */
+  getStats?(): SecretCacheStoreStats;
+}
@@ -0,0 +1,31 @@
+/**
+ * Event emitted when a rotated secret's 'latest' value changes.
+ */
+export interface SecretChangeEvent {
+  /**
+   * Secret name.
+   */
+  name: string;
+
+  /**
+   * Backend the secret was fetched from.
+   */
+  backend: string;
+
+  /**
+   * The new secret value.
+   */
+  value: string;
+
+  /**
+   * Version the new value was resolved to, if reported by the backend.
+   */
+  version?: string;
+}
+
+/**
+ * Listener notified when a secret's value changes.
+ */
+export type SecretChangeListener = (
+  event: SecretChangeEvent,
+) => void | Promise<void>;
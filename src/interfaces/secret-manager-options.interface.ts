@@ -1,5 +1,10 @@
 import { ModuleMetadata, Type } from '@nestjs/common';
 
+import { AwsSecretsManagerClient } from '../backends/aws-secrets-manager.backend';
+import { VaultKvBackendOptions } from '../backends/vault-kv.backend';
+import { InvalidationTransport } from './invalidation-transport.interface';
+import { SecretCacheStore } from './secret-cache-store.interface';
+
 /**
  * Options for configuring the SecretManagerModule.
  */
@@ -22,6 +27,93 @@ export interface SecretManagerModuleOptions {
    */
   cacheTTL?: number;
 
+  /**
+   * Store holding cached secrets, e.g. to share the cache between processes.
+   * Store failures are treated as cache misses.
+   * Defaults to an in-process `InMemorySecretCacheStore`.
+   */
+  cacheStore?: SecretCacheStore;
+
+  /**
+   * Maximum number of cached entries in the default in-process store.
+   * The least recently used entries are evicted first.
+   * If not set, the number of entries is unbounded.
+   */
+  cacheMaxEntries?: number;
+
+  /**
+   * Maximum total size in bytes of cached secret names and values
+   * in the default in-process store.
+   * The least recently used entries are evicted first.
+   * If not set, the cache size is unbounded.
+   */
+  cacheMaxBytes?: number;
+
+  /**
+   * Whether the default in-process store encrypts cached values with an
+   * ephemeral per-process AES-256-GCM key. Encrypted values are zeroed
+   * on eviction and on `clearCache()`.
+   * Cannot be combined with `redactLogs`.
+   * @default false
+   */
+  cacheEncryption?: boolean;
+
+  /**
+   * Interval in milliseconds at which expired entries are removed from
+   * the cache, even if they are never read again.
+   * @default cacheTTL
+   */
+  cacheSweepInterval?: number;
+
+  /**
+   * How expired cache entries are handled (requires `cacheTTL`):
+   * - 'expire': expired entries are re-fetched, blocking the caller
+   * - 'stale-while-revalidate': the expired value is returned immediately
+   *   while it is re-fetched in the background, and dropped if the
+   *   background fetch fails with SecretNotFoundError or
+   *   SecretAccessDeniedError
+   * - 'stale-if-error': expired entries are re-fetched, but the expired
+   *   value is returned if the backend fails with anything other than
+   *   SecretNotFoundError or SecretAccessDeniedError
+   * @default 'expire'
+   */
+  cacheMode?: SecretCacheMode;
+
+  /**
+   * How long in milliseconds after expiry a stale value may still be
+   * served in the 'stale-while-revalidate' and 'stale-if-error' modes.
+   * @default 3600000 (1 hour)
+   */
+  cacheStaleGracePeriod?: number;
+
+  /**
+   * Interval in milliseconds at which 'latest' secrets are re-fetched to
+   * detect rotation. Secrets registered for injection are watched, as are
+   * secrets with `onChange()`, `@OnSecretRotated` or `SecretRef`
+   * subscribers. Changed values update the cache and notify subscribers.
+   * If not set, secrets are only re-fetched when the cache expires.
+   */
+  rotationInterval?: number;
+
+  /**
+   * Transport broadcasting `invalidate()` and `invalidateBackend()` calls to
+   * other instances, which drop the matching cache entries.
+   * If not set, invalidations only apply to this instance.
+   */
+  invalidationTransport?: InvalidationTransport;
+
+  /**
+   * Retry, timeout and circuit breaker settings applied to every backend call.
+   * By default, transient errors are retried twice and calls are not timed out.
+   */
+  resilience?: SecretBackendResilienceOptions;
+
+  /**
+   * Per-backend overrides of `resilience`, keyed by backend name
+   * (e.g., { gcp: { timeout: 5000 } }).
+   */
+  backendResilience?: Record<string, SecretBackendResilienceOptions>;
+
   /**
    * Whether to validate all registered secrets on application startup.
    * When enabled, the application will fail to start if any secret is inaccessible.
@@ -29,12 +121,58 @@ export interface SecretManagerModuleOptions {
    */
   validateOnStartup?: boolean;
 
+  /**
+   * Maximum number of secrets fetched concurrently during startup
+   * validation and `getMany()`.
+   * Does not limit the fetches of secrets injected with `@InjectSecret` and
+   * `@InjectSecretRef`, which Nest runs while creating the module, before
+   * validation.
+   * @default 10
+   */
+  fetchConcurrency?: number;
+
+  /**
+   * Total time budget in milliseconds for startup validation.
+   * Secrets still pending when it runs out are reported as failures.
+   * If not set, validation waits for every secret.
+   * Does not bound the fetches of injected secrets, which happen while Nest
+   * creates the module, before validation; use `resilience.timeout` for
+   * those.
+   */
+  validationTimeout?: number;
+
+  /**
+   * Encrypted on-disk snapshot of the registered secrets, used to start in
+   * degraded mode when backends are unreachable. Requires `validateOnStartup`.
+   * If not set, no snapshot is written or read.
+   */
+  snapshot?: SecretSnapshotOptions;
+
   /**
    * GCP project ID for the GCP Secret Manager backend.
    * Required if using the 'gcp' backend.
    */
   gcpProjectId?: string;
 
+  /**
+   * AWS region for the AWS Secrets Manager backend.
+   * Setting this (or `awsSecretsManagerClient`) enables the 'aws' backend.
+   * Requires the optional `@aws-sdk/client-secrets-manager` package.
+   */
+  awsRegion?: string;
+
+  /**
+   * Client for the AWS Secrets Manager backend.
+   * Overrides the default SDK client, e.g., to test against a local stub.
+   */
+  awsSecretsManagerClient?: AwsSecretsManagerClient;
+
+  /**
+   * Connection options for the HashiCorp Vault KV v2 backend.
+   * Setting this enables the 'vault' backend.
+   */
+  vault?: VaultKvBackendOptions;
+
   /**
    * Secrets to preload into the in-memory backend.
    * Useful for testing and local development.
@@ -42,11 +180,153 @@ export interface SecretManagerModuleOptions {
    */
   inMemorySecrets?: Record<string, string>;
 
+  /**
+   * Prefix for environment variable names used by the 'env' backend.
+   * With a prefix of 'APP_', the secret `db-password` maps to `APP_DB_PASSWORD`.
+   * @default ''
+   */
+  envPrefix?: string;
+
+  /**
+   * Rule for mapping secret names to environment variable names
+   * (before the prefix is applied) in the 'env' backend.
+   * Defaults to upper-casing and replacing non-alphanumeric characters with '_'.
+   */
+  envNameMapper?: (name: string) => string;
+
+  /**
+   * Directory containing secrets mounted as files (e.g., '/var/secrets').
+   * Required if using the 'file' backend.
+   */
+  fileSecretsDir?: string;
+
+  /**
+   * Whether the 'file' backend strips trailing newlines from file contents.
+   * @default true
+   */
+  fileTrimTrailingNewline?: boolean;
+
+  /**
+   * Whether the 'file' backend watches the directory and drops cached
+   * values when a secret file changes, including values served through a
+   * chain containing the 'file' backend.
+   * A directory that cannot be watched (e.g., a missing one) is skipped
+   * with a warning.
+   * @default true
+   */
+  fileWatch?: boolean;
+
+  /**
+   * Backend names to chain, in lookup order (e.g., ['memory', 'gcp']).
+   * Setting this enables the 'chain' backend, which falls through to the
+   * next backend only when a secret is not found.
+   */
+  chainedBackends?: string[];
+
   /**
    * Whether to enable debug logging for secret access.
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * Whether to install a `RedactingLogger` around the application logger,
+   * masking cached and injected secret values in all log output.
+   * The logger keeps those values in plaintext to match them, so this
+   * cannot be combined with `cacheEncryption`.
+   * @default false
+   */
+  redactLogs?: boolean;
+}
+
+/**
+ * Settings for the offline secret snapshot.
+ *
+ * The snapshot is written after each successful startup validation. When a
+ * backend fails with a transient error and has no cached value, a snapshot
+ * value within `maxAge` is served instead and a warning is logged.
+ */
+export interface SecretSnapshotOptions {
+  /**
+   * Path of the snapshot file (e.g., '/var/cache/app/secrets.snapshot').
+   */
+  path: string;
+
+  /**
+   * 32-byte AES-256-GCM key, as a Buffer or a base64 string.
+   */
+  key: Buffer | string;
+
+  /**
+   * Maximum age in milliseconds of snapshot values that may be served,
+   * measured from when they were fetched.
+   */
+  maxAge: number;
+}
+
+/**
+ * How expired cache entries are handled.
+ */
+export type SecretCacheMode =
+  | 'expire'
+  | 'stale-while-revalidate'
+  | 'stale-if-error';
+
+/**
+ * Retry, timeout and circuit breaker settings for backend calls.
+ *
+ * Only transient errors are retried, e.g. gRPC UNAVAILABLE,
+ * DEADLINE_EXCEEDED and RESOURCE_EXHAUSTED, network errors, AWS
+ * throttling errors, HTTP 429/5xx responses and timeouts.
+ */
+export interface SecretBackendResilienceOptions {
+  /**
+   * Number of retries after a transient error.
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Base delay in milliseconds for exponential backoff.
+   * Each retry waits a random delay up to `retryBaseDelay * 2^attempt`.
+   * @default 100
+   */
+  retryBaseDelay?: number;
+
+  /**
+   * Upper bound in milliseconds for a single backoff delay.
+   * @default 2000
+   */
+  retryMaxDelay?: number;
+
+  /**
+   * Timeout in milliseconds for a single attempt.
+   * If not set, attempts are not timed out.
+   */
+  timeout?: number;
+
+  /**
+   * Circuit breaker settings.
+   * If not set, the circuit breaker is disabled.
+   */
+  circuitBreaker?: SecretCircuitBreakerOptions;
+}
+
+/**
+ * Circuit breaker settings for a backend.
+ */
+export interface SecretCircuitBreakerOptions {
+  /**
+   * Number of consecutive transient errors after which the circuit opens
+   * and calls fail fast with SecretCircuitOpenError.
+   */
+  failureThreshold: number;
+
+  /**
+   * Time in milliseconds after which an open circuit lets a single
+   * trial call through. Success closes the circuit, failure re-opens it.
+   */
+  resetTimeout: number;
 }
 
 /**
@@ -90,10 +370,55 @@ export interface SecretManagerModuleAsyncOptions extends Pick<
   inject?: any[];
 }
 
+/**
+ * Parser applied to a secret value.
+ *
+ * Built-in parsers:
+ * - 'number': parses a finite number
+ * - 'boolean': parses true/false, 1/0, yes/no, on/off
+ * - 'json': parses a JSON document
+ * - 'base64': decodes base64 into a Buffer
+ * - 'pem': parses a PEM key or certificate into a KeyObject
+ *
+ * Custom functions receive the string value and may throw to reject it.
+ */
+export type SecretTransform =
+  | 'number'
+  | 'boolean'
+  | 'json'
+  | 'base64'
+  | 'pem'
+  | ((value: string) => unknown);
+
+/**
+ * Options controlling how a fetched secret value is interpreted.
+ */
+export interface SecretValueOptions {
+  /**
+   * Field to extract from a secret holding a JSON document.
+   * Either a top-level property name (e.g., 'password') or a
+   * JSON pointer (e.g., '/db/password').
+   */
+  field?: string;
+
+  /**
+   * Parser applied to the value (after field extraction).
+   * Runs during startup validation, so malformed values fail the boot.
+   */
+  transform?: SecretTransform;
+
+  /**
+   * Whether to wrap the value in a `RedactedSecret`, which prints as
+   * `[REDACTED:<name>]` and exposes the value only through `reveal()`.
+   * @default false
+   */
+  redact?: boolean;
+}
+
 /**
  * Options for the @InjectSecret decorator.
  */
-export interface InjectSecretOptions {
+export interface InjectSecretOptions extends SecretValueOptions {
   /**
    * Specific version of the secret to fetch.
    * @default 'latest'
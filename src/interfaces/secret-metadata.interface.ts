@@ -0,0 +1,37 @@
+/**
+ * A secret value with the metadata of the version it was read from.
+ */
+export interface SecretWithMetadata {
+  /**
+   * The secret value.
+   */
+  value: string;
+
+  /**
+   * Backend the value was read from. For the chained backend, the chained
+   * backend that served it, unless this instance did not fetch the value
+   * itself.
+   */
+  backend: string;
+
+  /**
+   * Version the request resolved to (e.g., '7' when 'latest' was requested).
+   * Undefined if the backend does not report versions.
+   */
+  resolvedVersion?: string;
+
+  /**
+   * When the version was created, if reported by the backend.
+   */
+  createTime?: Date;
+
+  /**
+   * Entity tag of the version, if reported by the backend.
+   */
+  etag?: string;
+
+  /**
+   * Checksum of the value computed by the backend, if reported.
+   */
+  checksum?: string;
+}
@@ -0,0 +1,59 @@
+import { inspect } from 'util';
+
+// Values are kept outside the instances, so that no serializer walking
+// their properties can reach them
+const revealedValues = new WeakMap<RedactedSecret<unknown>, unknown>();
+
+/**
+ * A secret value that does not print itself.
+ *
+ * Injected instead of the bare value with the `redact` option. String
+ * conversion, `JSON.stringify()` and `util.inspect()` (used by
+ * `console.log()`) all print `[REDACTED:<name>]`, so a logged or
+ * serialized service object does not leak the secret. The value is only
+ * available through `reveal()`.
+ *
+ * @example
+ * ```typescript
+ * constructor(
+ *   @InjectSecret('api-key', { redact: true })
+ *   private readonly apiKey: RedactedSecret,
+ * ) {}
+ *
+ * request() {
+ *   return fetch(url, { headers: { Authorization: this.apiKey.reveal() } });
+ * }
+ * ```
+ */
+export class RedactedSecret<T = string> {
+  constructor(
+    readonly name: string,
+    value: T,
+  ) {
+    revealedValues.set(this, value);
+    Object.freeze(this);
+  }
+
+  /**
+   * Get the secret value.
+   */
+  reveal(): T {
+    return revealedValues.get(this) as T;
+  }
+
+  toString(): string {
+    return `[REDACTED:${this.name}]`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  [Symbol.toPrimitive](): string {
+    return this.toString();
+  }
+
+  [inspect.custom](): string {
+    return this.toString();
+  }
+}
@@ -0,0 +1,273 @@
+import { ConsoleLogger, LogLevel, Logger, LoggerService } from '@nestjs/common';
+
+import { RedactedSecret } from './redacted-secret';
+
+const MASK = '[REDACTED]';
+
+// Shorter values would mask unrelated text (e.g., every "1" or "true")
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Reads the logger installed through `Logger.overrideLogger()`, which
+ * Nest only exposes to subclasses.
+ */
+class InstalledLogger extends Logger {
+  static get(): LoggerService | undefined {
+    return this.staticInstanceRef;
+  }
+}
+
+/**
+ * Logger wrapper masking secret values in log output.
+ *
+ * Every occurrence of a known secret value in messages, objects and error
+ * stacks is replaced with `[REDACTED]` before the call is forwarded to the
+ * wrapped logger, including its base64, base64url and URL-encoded forms.
+ * Objects and errors are copied, never modified. Known values are kept in
+ * plaintext to match them.
+ *
+ * Installed by the module with the `redactLogs` option, which keeps it
+ * informed of the secrets held in the cache and injected into providers.
+ * It can also be used standalone:
+ *
+ * @example
+ * ```typescript
+ * const logger = new RedactingLogger(new ConsoleLogger());
+ * logger.addSecret('api-key', apiKey);
+ * app.useLogger(logger);
+ * ```
+ */
+export class RedactingLogger implements LoggerService {
+  private readonly secrets = new Map<string, string>();
+  private readonly followsInstalled: boolean;
+  private logger?: LoggerService;
+  private previous?: LoggerService;
+  private installed = false;
+  private pattern?: RegExp | null;
+
+  /**
+   * @param logger - Logger to forward to. Defaults to a `ConsoleLogger`,
+   *   or to the previously installed logger once installed.
+   */
+  constructor(logger?: LoggerService) {
+    this.logger = logger ?? new ConsoleLogger();
+    this.followsInstalled = logger === undefined;
+  }
+
+  /**
+   * Install as the logger behind every Nest `Logger`, wrapping the logger
+   * installed so far (e.g., through `app.useLogger()`).
+   */
+  install(): void {
+    if (this.installed) {
+      return;
+    }
+
+    this.previous = InstalledLogger.get();
+    if (this.followsInstalled) {
+      this.logger = this.previous;
+    }
+
+    Logger.overrideLogger(this);
+    this.installed = true;
+  }
+
+  /**
+   * Restore the logger that was installed before, unless another logger
+   * has been installed since.
+   */
+  uninstall(): void {
+    if (!this.installed) {
+      return;
+    }
+
+    if (InstalledLogger.get() === this) {
+      Logger.overrideLogger(this.previous ?? false);
+    }
+    this.installed = false;
+  }
+
+  /**
+   * Mask a secret value, replacing any value previously added under the key.
+   * `RedactedSecret`s are unwrapped; other non-string values and values
+   * shorter than 4 characters are not masked.
+   *
+   * @param key - Owner of the value, e.g., a cache key or injection token
+   * @param value - Secret value
+   */
+  addSecret(key: string, value: unknown): void {
+    const secret = value instanceof RedactedSecret ? value.reveal() : value;
+
+    if (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH) {
+      this.removeSecret(key);
+      return;
+    }
+
+    if (this.secrets.get(key) !== secret) {
+      this.secrets.set(key, secret);
+      this.pattern = undefined;
+    }
+  }
+
+  /**
+   * Stop masking the value added under a key.
+   */
+  removeSecret(key: string): void {
+    if (this.secrets.delete(key)) {
+      this.pattern = undefined;
+    }
+  }
+
+  /**
+   * Stop masking the values added under keys starting with a prefix.
+   *
+   * @param prefix - Key prefix, or empty to remove all values
+   */
+  removeSecrets(prefix = ''): void {
+    for (const key of this.secrets.keys()) {
+      if (key.startsWith(prefix)) {
+        this.removeSecret(key);
+      }
+    }
+  }
+
+  /**
+   * Mask known secret values in a string, or in a copy of an array, object
+   * or error.
+   *
+   * @param value - Value to redact
+   * @returns The redacted value, or the value itself if no secrets are known
+   */
+  redact<T>(value: T): T {
+    return this.getPattern() === null
+      ? value
+      : (this.redactValue(value, new Map()) as T);
+  }
+
+  log(message: unknown, ...optionalParams: unknown[]): void {
+    this.logger?.log(...this.redactParams(message, optionalParams));
+  }
+
+  error(message: unknown, ...optionalParams: unknown[]): void {
+    this.logger?.error(...this.redactParams(message, optionalParams));
+  }
+
+  warn(message: unknown, ...optionalParams: unknown[]): void {
+    this.logger?.warn(...this.redactParams(message, optionalParams));
+  }
+
+  debug(message: unknown, ...optionalParams: unknown[]): void {
+    this.logger?.debug?.(...this.redactParams(message, optionalParams));
+  }
+
+  verbose(message: unknown, ...optionalParams: unknown[]): void {
+    this.logger?.verbose?.(...this.redactParams(message, optionalParams));
+  }
+
+  fatal(message: unknown, ...optionalParams: unknown[]): void {
+    const params = this.redactParams(message, optionalParams);
+
+    if (this.logger?.fatal) {
+      this.logger.fatal(...params);
+    } else {
+      this.logger?.error(...params);
+    }
+  }
+
+  setLogLevels(levels: LogLevel[]): void {
+    this.logger?.setLogLevels?.(levels);
+  }
+
+  private redactParams(
+    message: unknown,
+    optionalParams: unknown[],
+  ): [unknown, ...unknown[]] {
+    return [
+      this.redact(message),
+      ...optionalParams.map((param) => this.redact(param)),
+    ];
+  }
+
+  private redactValue(value: unknown, seen: Map<object, unknown>): unknown {
+    if (typeof value === 'string') {
+      return value.replace(this.getPattern()!, MASK);
+    }
+
+    // RedactedSecrets print themselves redacted
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      value instanceof RedactedSecret
+    ) {
+      return value;
+    }
+
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      for (const item of value) {
+        copy.push(this.redactValue(item, seen));
+      }
+      return copy;
+    }
+
+    // Copy errors, plain objects and class instances, but not built-ins
+    // such as Buffers, Dates and Maps
+    if (
+      !(value instanceof Error) &&
+      Object.prototype.toString.call(value) !== '[object Object]'
+    ) {
+      return value;
+    }
+
+    // Keep the prototype, so that errors still print as errors
+    const copy = Object.create(Object.getPrototypeOf(value)) as object;
+    seen.set(value, copy);
+
+    for (const key of Reflect.ownKeys(value)) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+      if ('value' in descriptor) {
+        descriptor.value = this.redactValue(descriptor.value, seen);
+      }
+      Object.defineProperty(copy, key, descriptor);
+    }
+
+    return copy;
+  }
+
+  /**
+   * Get a pattern matching every known secret value in any of its forms.
+   *
+   * @returns The pattern, or null if there is nothing to mask
+   */
+  private getPattern(): RegExp | null {
+    if (this.pattern !== undefined) {
+      return this.pattern;
+    }
+
+    const forms = new Set<string>();
+    for (const secret of new Set(this.secrets.values())) {
+      const base64 = Buffer.from(secret, 'utf-8').toString('base64');
+      forms.add(secret);
+      forms.add(base64);
+      forms.add(base64.replace(/=+$/, ''));
+      forms.add(Buffer.from(secret, 'utf-8').toString('base64url'));
+      forms.add(encodeURIComponent(secret));
+    }
+
+    // Longer forms first, so that a value is masked as a whole
+    const alternatives = Array.from(forms)
+      .sort((a, b) => b.length - a.length)
+      .map((form) => form.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+    this.pattern =
+      alternatives.length === 0
+        ? null
+        : new RegExp(alternatives.join('|'), 'g');
+    return this.pattern;
+  }
+}
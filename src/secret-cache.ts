@@ -1,35 +1,122 @@
-interface CacheEntry {
-  value: string;
-  cachedAt: number;
+import { Logger } from '@nestjs/common';
+
+import {
+  SecretCacheEntry,
+  SecretCacheStore,
+} from './interfaces/secret-cache-store.interface';
+import { RedactingLogger } from './redacting-logger';
+import { InMemorySecretCacheStore } from './stores/in-memory-cache.store';
+
+/**
+ * Secret cache statistics.
+ */
+export interface SecretCacheStats {
+  /**
+   * Lookups answered from the cache.
+   */
+  hits: number;
+
+  /**
+   * Lookups that found no fresh entry.
+   */
+  misses: number;
+
+  /**
+   * Entries removed to stay within the size limits.
+   */
+  evictions: number;
+
+  /**
+   * Entries removed after expiring.
+   */
+  expirations: number;
+
+  /**
+   * Number of cached entries, as reported by the store.
+   */
+  size: number;
+
+  /**
+   * Total size of cached keys and values in bytes, as reported by the store.
+   */
+  bytes: number;
 }
 
 /**
- * In-memory cache for secrets.
+ * Cache for secrets, applying TTL and statistics on top of a store.
  * Uses a composite key of backend:name:version for cache entries.
+ *
+ * Expired entries are kept for a further `staleMs` so that they can still
+ * be served through `getStale()`, e.g. while the backend is unavailable.
+ *
+ * Store failures are logged and treated as cache misses.
+ *
+ * With a redacting logger, cached values are masked in log output until
+ * their entries are replaced, deleted or cleared.
  */
 export class SecretCache {
-  private readonly cache = new Map<string, CacheEntry>();
+  private readonly logger = new Logger(SecretCache.name);
+  private hits = 0;
+  private misses = 0;
+  private expirations = 0;
+  private readonly removeListeners: ((key?: string) => void)[] = [];
 
-  constructor(private readonly ttlMs?: number) {}
+  constructor(
+    private readonly ttlMs?: number,
+    private readonly staleMs = 0,
+    private readonly store: SecretCacheStore = new InMemorySecretCacheStore(),
+    private readonly redactingLogger?: RedactingLogger,
+  ) {
+    store.onEvict?.((key) => this.notifyRemoved(key));
+  }
 
   /**
    * Generate a cache key from backend, name, and version.
    */
-  private getCacheKey(backend: string, name: string, version?: string): string {
+  getCacheKey(backend: string, name: string, version?: string): string {
     return `${backend}:${name}:${version ?? 'latest'}`;
   }
 
   /**
    * Get a cached secret value.
+   * Counts as a hit or miss.
+   *
+   * @param backend - Backend name
+   * @param name - Secret name
+   * @param version - Secret version (defaults to 'latest')
+   * @returns The cached value, or undefined if not found or expired
+   */
+  async get(
+    backend: string,
+    name: string,
+    version?: string,
+  ): Promise<string | undefined> {
+    const value = await this.peek(backend, name, version);
+
+    if (value === undefined) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+
+    return value;
+  }
+
+  /**
+   * Get a cached secret value without affecting statistics.
    *
    * @param backend - Backend name
    * @param name - Secret name
    * @param version - Secret version (defaults to 'latest')
    * @returns The cached value, or undefined if not found or expired
    */
-  get(backend: string, name: string, version?: string): string | undefined {
+  async peek(
+    backend: string,
+    name: string,
+    version?: string,
+  ): Promise<string | undefined> {
     const key = this.getCacheKey(backend, name, version);
-    const entry = this.cache.get(key);
+    const entry = await this.read(key);
 
     if (!entry) {
       return undefined;
@@ -37,7 +124,31 @@ export class SecretCache {
 
     // Check TTL if configured
     if (this.ttlMs !== undefined && Date.now() - entry.cachedAt > this.ttlMs) {
-      this.cache.delete(key);
+      await this.evictIfUnservable(key, entry);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Get a cached secret value, including expired values that are still
+   * within the stale window.
+   *
+   * @param backend - Backend name
+   * @param name - Secret name
+   * @param version - Secret version (defaults to 'latest')
+   * @returns The cached value, or undefined if not found or past the stale window
+   */
+  async getStale(
+    backend: string,
+    name: string,
+    version?: string,
+  ): Promise<string | undefined> {
+    const key = this.getCacheKey(backend, name, version);
+    const entry = await this.read(key);
+
+    if (!entry || (await this.evictIfUnservable(key, entry))) {
       return undefined;
     }
 
@@ -52,12 +163,25 @@ export class SecretCache {
    * @param value - Secret value
    * @param version - Secret version (defaults to 'latest')
    */
-  set(backend: string, name: string, value: string, version?: string): void {
+  async set(
+    backend: string,
+    name: string,
+    value: string,
+    version?: string,
+  ): Promise<void> {
     const key = this.getCacheKey(backend, name, version);
-    this.cache.set(key, {
-      value,
-      cachedAt: Date.now(),
-    });
+    // Stores expect a finite TTL, or none for entries that never expire
+    const ttlMs =
+      this.ttlMs === undefined || !Number.isFinite(this.ttlMs + this.staleMs)
+        ? undefined
+        : this.ttlMs + this.staleMs;
+
+    try {
+      await this.store.set(key, { value, cachedAt: Date.now() }, ttlMs);
+      this.redactingLogger?.addSecret(key, value);
+    } catch (error) {
+      this.warn('write', key, error);
+    }
   }
 
   /**
@@ -68,8 +192,8 @@ export class SecretCache {
    * @param version - Secret version (defaults to 'latest')
    * @returns True if the secret is cached and not expired
    */
-  has(backend: string, name: string, version?: string): boolean {
-    return this.get(backend, name, version) !== undefined;
+  async has(backend: string, name: string, version?: string): Promise<boolean> {
+    return (await this.peek(backend, name, version)) !== undefined;
   }
 
   /**
@@ -80,22 +204,184 @@ export class SecretCache {
    * @param version - Secret version (defaults to 'latest')
    * @returns True if the entry was deleted
    */
-  delete(backend: string, name: string, version?: string): boolean {
-    const key = this.getCacheKey(backend, name, version);
-    return this.cache.delete(key);
+  async delete(
+    backend: string,
+    name: string,
+    version?: string,
+  ): Promise<boolean> {
+    return this.remove(this.getCacheKey(backend, name, version));
+  }
+
+  /**
+   * Delete all cached versions of a secret, or all secrets of a backend.
+   * Requires a store that can list its keys.
+   *
+   * @param backend - Backend name
+   * @param name - Secret name, or undefined to delete every secret of the backend
+   * @returns The number of deleted entries
+   */
+  async invalidate(backend: string, name?: string): Promise<number> {
+    const prefix = name === undefined ? `${backend}:` : `${backend}:${name}:`;
+    let deleted = 0;
+
+    for (const key of await this.listKeys()) {
+      if (key.startsWith(prefix) && (await this.remove(key))) {
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Delete all entries past both the TTL and the stale window.
+   * Requires a store that can list its keys.
+   *
+   * @returns The number of deleted entries
+   */
+  async sweep(): Promise<number> {
+    if (this.ttlMs === undefined) {
+      return 0;
+    }
+
+    let deleted = 0;
+
+    for (const key of await this.listKeys()) {
+      const entry = await this.read(key);
+      if (entry && (await this.evictIfUnservable(key, entry))) {
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Whether the store can list its keys, as `invalidate()` and `sweep()`
+   * require.
+   */
+  get canListKeys(): boolean {
+    return this.store.keys !== undefined;
+  }
+
+  /**
+   * Register a listener called when entries leave the cache: with the key
+   * of each deleted, expired or evicted entry, or without a key when the
+   * cache is cleared.
+   */
+  onRemove(listener: (key?: string) => void): void {
+    this.removeListeners.push(listener);
+  }
+
+  /**
+   * Get cache statistics.
+   */
+  getStats(): SecretCacheStats {
+    const storeStats = this.store.getStats?.();
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: storeStats?.evictions ?? 0,
+      expirations: this.expirations,
+      size: storeStats?.size ?? 0,
+      bytes: storeStats?.bytes ?? 0,
+    };
+  }
+
+  private async read(key: string): Promise<SecretCacheEntry | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      // Shared stores may hold values this instance never wrote
+      if (entry) {
+        this.redactingLogger?.addSecret(key, entry.value);
+      }
+      return entry;
+    } catch (error) {
+      this.warn('read', key, error);
+      return undefined;
+    }
+  }
+
+  private async remove(key: string): Promise<boolean> {
+    try {
+      const deleted = (await this.store.delete(key)) !== false;
+      this.notifyRemoved(key);
+      return deleted;
+    } catch (error) {
+      this.warn('delete', key, error);
+      return false;
+    }
+  }
+
+  private async listKeys(): Promise<string[]> {
+    if (!this.store.keys) {
+      return [];
+    }
+
+    try {
+      return Array.from(await this.store.keys());
+    } catch (error) {
+      this.warn('list', 'keys', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete an entry once it is past both the TTL and the stale window.
+   *
+   * @returns True if the entry was deleted
+   */
+  private async evictIfUnservable(
+    key: string,
+    entry: SecretCacheEntry,
+  ): Promise<boolean> {
+    if (
+      this.ttlMs === undefined ||
+      Date.now() - entry.cachedAt <= this.ttlMs + this.staleMs
+    ) {
+      return false;
+    }
+
+    await this.remove(key);
+    this.expirations++;
+    return true;
+  }
+
+  private notifyRemoved(key?: string): void {
+    if (key === undefined) {
+      this.redactingLogger?.removeSecrets();
+    } else {
+      this.redactingLogger?.removeSecret(key);
+    }
+
+    for (const listener of this.removeListeners) {
+      listener(key);
+    }
+  }
+
+  private warn(operation: string, key: string, error: unknown): void {
+    this.logger.warn(
+      `Secret cache store failed to ${operation} '${key}': ${(error as Error).message}`,
+    );
   }
 
   /**
    * Clear all cached secrets.
    */
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    try {
+      await this.store.clear();
+      this.notifyRemoved();
+    } catch (error) {
+      this.warn('clear', 'all entries', error);
+    }
   }
 
   /**
-   * Get the number of cached entries.
+   * Get the number of cached entries, as reported by the store.
    */
   get size(): number {
-    return this.cache.size;
+    return this.store.getStats?.().size ?? 0;
   }
 }
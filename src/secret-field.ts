@@ -0,0 +1,55 @@
+import { SecretFieldError } from './errors/secret-field.error';
+
+/**
+ * Extract a field from a secret holding a JSON document.
+ *
+ * The field is either a top-level property name (e.g., 'password') or a
+ * JSON pointer (e.g., '/db/password'). Non-string values are returned
+ * as JSON.
+ *
+ * @param value - Raw secret value
+ * @param field - Property name or JSON pointer
+ * @param secretName - Secret name, for error reporting
+ * @param backend - Backend name, for error reporting
+ * @returns The selected field as a string
+ * @throws SecretFieldError if the value is not JSON or the field is missing
+ */
+export function extractSecretField(
+  value: string,
+  field: string,
+  secretName: string,
+  backend: string,
+): string {
+  let current: unknown;
+
+  try {
+    current = JSON.parse(value);
+  } catch {
+    throw new SecretFieldError(
+      secretName,
+      backend,
+      field,
+      'secret value is not valid JSON',
+    );
+  }
+
+  const path = field.startsWith('/')
+    ? field
+        .slice(1)
+        .split('/')
+        .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    : [field];
+
+  for (const key of path) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(current, key)
+    ) {
+      throw new SecretFieldError(secretName, backend, field, 'field not found');
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return typeof current === 'string' ? current : JSON.stringify(current);
+}
@@ -1,4 +1,5 @@
 import { DynamicModule, Global, Module, Provider } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 
 import { SECRET_MANAGER_OPTIONS, secretRegistry } from './constants';
 import {
@@ -7,6 +8,8 @@ import {
   SecretManagerOptionsFactory,
 } from './interfaces/secret-manager-options.interface';
 import { SecretManagerService } from './secret-manager.service';
+import { SecretRef } from './secret-ref';
+import { SecretRotationExplorer } from './secret-rotation.explorer';
 
 /**
  * NestJS module for secret management.
@@ -14,6 +17,9 @@ import { SecretManagerService } from './secret-manager.service';
  * Provides:
  * - SecretManagerService for programmatic access to secrets
  * - @InjectSecret decorator for dependency injection of secret values
+ * - @InjectSecretRef decorator for live handles that follow rotations
+ * - @InjectSecrets decorator for injecting classes of @Secret fields
+ * - @OnSecretRotated decorator for reacting to rotated secrets
  * - Startup validation to fail fast if secrets are inaccessible
  * - In-memory caching to reduce backend calls
  *
@@ -61,12 +67,14 @@ export class SecretManagerModule {
 
     return {
       module: SecretManagerModule,
+      imports: [DiscoveryModule],
       providers: [
         {
           provide: SECRET_MANAGER_OPTIONS,
           useValue: options,
         },
         SecretManagerService,
+        SecretRotationExplorer,
         ...secretProviders,
       ],
       exports: [SecretManagerService, ...secretProviders],
@@ -81,10 +89,11 @@ export class SecretManagerModule {
 
     return {
       module: SecretManagerModule,
-      imports: options.imports ?? [],
+      imports: [DiscoveryModule, ...(options.imports ?? [])],
       providers: [
         ...this.createAsyncProviders(options),
         SecretManagerService,
+        SecretRotationExplorer,
         ...secretProviders,
       ],
       exports: [SecretManagerService, ...secretProviders],
@@ -177,18 +186,61 @@ export class SecretManagerModule {
   }
 
   /**
-   * Create providers for all registered secrets.
-   * Each secret gets its own provider that resolves to its value.
+   * Create providers for all registered secrets and secrets classes.
+   * Each secret gets its own provider that resolves to its (transformed) value.
    */
   private static createSecretProviders(): Provider[] {
     const secrets = secretRegistry.getAll();
 
-    return secrets.map((secret) => ({
+    const secretProviders: Provider[] = secrets.map((secret) => ({
       provide: secret.token,
-      useFactory: async (service: SecretManagerService): Promise<string> => {
-        return service.get(secret.name, secret.version, secret.backend);
+      useFactory: async (service: SecretManagerService): Promise<unknown> => {
+        const value = await service.get(
+          secret.name,
+          secret.version,
+          secret.backend,
+          {
+            field: secret.field,
+            transform: secret.transform,
+            redact: secret.redact,
+          },
+        );
+        service.getRedactingLogger()?.addSecret(secret.token, value);
+        return value;
       },
       inject: [SecretManagerService],
     }));
+
+    // SecretRefs resolve to live handles following rotations
+    const refProviders: Provider[] = secretRegistry.getRefs().map((secret) => ({
+      provide: secret.token,
+      useFactory: async (
+        service: SecretManagerService,
+      ): Promise<SecretRef<unknown>> => {
+        return service.getRef(secret.name, secret.version, secret.backend, {
+          field: secret.field,
+          transform: secret.transform,
+          redact: secret.redact,
+        });
+      },
+      inject: [SecretManagerService],
+    }));
+
+    // Each secrets class gets a provider assembling its field providers
+    const classProviders: Provider[] = secretRegistry
+      .getClasses()
+      .map(({ type, token, properties }) => ({
+        provide: token,
+        useFactory: (...values: unknown[]) => {
+          const instance = new type();
+          properties.forEach(({ propertyKey }, index) => {
+            instance[propertyKey] = values[index];
+          });
+          return Object.freeze(instance);
+        },
+        inject: properties.map((property) => property.token),
+      }));
+
+    return [...secretProviders, ...refProviders, ...classProviders];
   }
 }
@@ -1,36 +1,230 @@
-import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { createHash, randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
 
+import { BackendResilience } from './backend-resilience';
+import { AwsSecretsManagerBackend } from './backends/aws-secrets-manager.backend';
+import { ChainedSecretBackend } from './backends/chained.backend';
+import { EnvSecretBackend } from './backends/env.backend';
+import { FileSecretBackend } from './backends/file.backend';
 import { GcpSecretManagerBackend } from './backends/gcp-secret-manager.backend';
 import { InMemorySecretBackend } from './backends/in-memory.backend';
+import { VaultKvBackend } from './backends/vault-kv.backend';
 import { SECRET_MANAGER_OPTIONS, secretRegistry } from './constants';
-import { SecretBackend } from './interfaces/secret-backend.interface';
-import { SecretManagerModuleOptions } from './interfaces/secret-manager-options.interface';
-import { SecretCache } from './secret-cache';
+import { SecretAccessDeniedError } from './errors/secret-access-denied.error';
+import { SecretBackendTimeoutError } from './errors/secret-backend-timeout.error';
+import { SecretNotFoundError } from './errors/secret-not-found.error';
+import { SecretOperationNotSupportedError } from './errors/secret-operation-not-supported.error';
+import {
+  SecretInvalidationMessage,
+  SecretInvalidationOptions,
+} from './interfaces/invalidation-transport.interface';
+import {
+  SecretBackend,
+  SecretBackendValue,
+  SecretCreateOptions,
+  SecretListOptions,
+  SecretListPage,
+  SecretVersionInfo,
+  SecretVersionMetadata,
+} from './interfaces/secret-backend.interface';
+import {
+  SecretBatchResult,
+  SecretRequest,
+} from './interfaces/secret-batch.interface';
+import {
+  SecretChangeEvent,
+  SecretChangeListener,
+} from './interfaces/secret-change-event.interface';
+import {
+  SecretManagerModuleOptions,
+  SecretValueOptions,
+} from './interfaces/secret-manager-options.interface';
+import { SecretWithMetadata } from './interfaces/secret-metadata.interface';
+import { RedactingLogger } from './redacting-logger';
+import { SecretCache, SecretCacheStats } from './secret-cache';
+import { SecretRef, SecretRefValue } from './secret-ref';
+import {
+  isSecretReference,
+  parseSecretReference,
+  resolveSecretReference,
+} from './secret-reference';
+import { SecretSnapshot, SecretSnapshotEntry } from './secret-snapshot';
+import { resolveSecretValue } from './secret-value';
+import { InMemorySecretCacheStore } from './stores/in-memory-cache.store';
+
+/**
+ * A 'latest' secret watched for rotation.
+ * Only a digest of the last seen value is kept, never the value itself.
+ */
+interface RotationTarget {
+  backend: SecretBackend;
+  name: string;
+  digest?: string;
+
+  /**
+   * Whether the secret is registered for injection, and so watched for
+   * the lifetime of the module rather than while it has subscribers.
+   */
+  registered?: boolean;
+}
+
+/**
+ * Optional backend methods that manage or list secrets.
+ */
+type SecretBackendOperation =
+  | 'createSecret'
+  | 'addVersion'
+  | 'disableVersion'
+  | 'destroyVersion'
+  | 'listSecrets'
+  | 'listVersions';
+
+/**
+ * Version metadata of a fetched value, matched to cached values by digest.
+ */
+interface VersionMetadataEntry {
+  digest: string;
+  metadata: Omit<SecretBackendValue, 'value'>;
+}
+
+/**
+ * A resolved secret value with the metadata of its version, if known.
+ */
+type ResolvedSecret<T> = Omit<SecretBackendValue, 'value'> & { value: T };
+
+/**
+ * A secret fetched through a backend's batch `getMany()`.
+ */
+interface BatchItem {
+  key: string;
+  name: string;
+  version: string;
+  options: SecretValueOptions;
+}
+
+/**
+ * Wrap a value read without metadata.
+ * Explicit versions are known without the backend's help.
+ */
+function withRequestedVersion(
+  value: string,
+  version: string,
+): SecretBackendValue {
+  return { value, version: version === 'latest' ? undefined : version };
+}
+
+/**
+ * Run tasks with at most `limit` of them in flight at a time.
+ */
+async function runWithConcurrency(
+  tasks: (() => Promise<void>)[],
+  limit: number,
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length) {
+      await tasks[next++]!();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), tasks.length) }, worker),
+  );
+}
 
 /**
  * Service for accessing secrets from configured backends.
  *
  * Features:
  * - Cache-first lookup to minimize backend calls
- * - Startup validation of all registered secrets
+ * - Stale cache serving while refreshing or during backend outages
+ * - Retries, timeouts and circuit breaking for backend calls
+ * - Encrypted offline snapshot for starts during backend outages
+ * - Parallel startup validation of all registered secrets
+ * - Bulk access with batch-capable backends
  * - OpenTelemetry tracing
  * - Multiple backend support
+ * - Background rotation checks with change subscriptions
+ * - Cache invalidation, optionally broadcast to other instances
+ * - Masking of secret values in log output
  */
 @Injectable()
-export class SecretManagerService implements OnModuleInit {
+export class SecretManagerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(SecretManagerService.name);
   private readonly backends = new Map<string, SecretBackend>();
   private readonly cache: SecretCache;
+  private readonly redactingLogger?: RedactingLogger;
   private readonly tracer = trace.getTracer('secret-manager');
+  private readonly changes = new EventEmitter();
+  private readonly rotationTargets = new Map<string, RotationTarget>();
+  private readonly inFlight = new Map<string, Promise<SecretBackendValue>>();
+  private readonly resilience = new Map<string, BackendResilience>();
+  private readonly snapshot?: SecretSnapshot;
+  private readonly offlineSecrets = new Map<string, SecretSnapshotEntry>();
+  private readonly offlineServed = new Set<string>();
+  private readonly instanceId = randomUUID();
+  private readonly versionMetadata = new Map<string, VersionMetadataEntry>();
+  private unsubscribeInvalidations?: () => void;
+  private snapshotEntries?: Map<string, SecretSnapshotEntry>;
+  private snapshotLoad?: Promise<void>;
+  private rotationTimer?: NodeJS.Timeout;
+  private sweepTimer?: NodeJS.Timeout;
+  private refreshing = false;
 
   constructor(
     @Inject(SECRET_MANAGER_OPTIONS)
     private readonly options: SecretManagerModuleOptions,
   ) {
+    if (options.redactLogs) {
+      // Redaction matches plaintext values, defeating encryption at rest
+      if (options.cacheEncryption) {
+        throw new Error(
+          'Invalid SecretManagerModuleOptions: redactLogs cannot be combined with cacheEncryption',
+        );
+      }
+      this.redactingLogger = new RedactingLogger();
+    }
+
     // Initialize cache
     const cacheEnabled = options.cacheEnabled !== false;
-    this.cache = new SecretCache(cacheEnabled ? options.cacheTTL : undefined);
+    const staleMs =
+      (options.cacheMode ?? 'expire') === 'expire'
+        ? 0
+        : (options.cacheStaleGracePeriod ?? 3600000);
+    this.cache = new SecretCache(
+      cacheEnabled ? options.cacheTTL : undefined,
+      staleMs,
+      options.cacheStore ??
+        new InMemorySecretCacheStore({
+          maxEntries: options.cacheMaxEntries,
+          maxBytes: options.cacheMaxBytes,
+          encrypt: options.cacheEncryption,
+        }),
+      this.redactingLogger,
+    );
+
+    // Version metadata lives as long as the cached value it describes
+    this.cache.onRemove((key) => {
+      if (key === undefined) {
+        this.versionMetadata.clear();
+      } else {
+        this.versionMetadata.delete(key);
+      }
+    });
+
+    // Record fetched values during startup validation for the snapshot
+    if (options.snapshot && options.validateOnStartup !== false) {
+      this.snapshot = new SecretSnapshot(options.snapshot);
+      this.snapshotEntries = new Map();
+    }
 
     // Initialize backends
     this.initializeBackends();
@@ -46,6 +240,68 @@ export class SecretManagerService implements OnModuleInit {
       this.logger.log('GCP Secret Manager backend initialized');
     }
 
+    // Initialize AWS backend if a region or client is provided
+    if (this.options.awsRegion || this.options.awsSecretsManagerClient) {
+      this.backends.set(
+        'aws',
+        new AwsSecretsManagerBackend({
+          region: this.options.awsRegion,
+          client: this.options.awsSecretsManagerClient,
+        }),
+      );
+      this.logger.log('AWS Secrets Manager backend initialized');
+    }
+
+    // Initialize Vault backend if connection options are provided
+    if (this.options.vault) {
+      this.backends.set('vault', new VaultKvBackend(this.options.vault));
+      this.logger.log(
+        `Vault KV backend initialized for ${this.options.vault.address}`,
+      );
+    }
+
+    // Initialize file backend if a secrets directory is provided
+    if (this.options.fileSecretsDir) {
+      const fileBackend = new FileSecretBackend({
+        directory: this.options.fileSecretsDir,
+        trimTrailingNewline: this.options.fileTrimTrailingNewline,
+      });
+
+      if (this.options.fileWatch !== false) {
+        fileBackend.watch(async (name) => {
+          let deleted = await this.evict({
+            origin: this.instanceId,
+            backend: fileBackend.name,
+            name,
+          });
+
+          // Values served through a chain may come from the changed file
+          const chained = this.backends.get('chain');
+          if (
+            chained instanceof ChainedSecretBackend &&
+            chained.getBackendNames().includes(fileBackend.name)
+          ) {
+            deleted += await this.evict({
+              origin: this.instanceId,
+              backend: chained.name,
+              name,
+            });
+          }
+
+          if (deleted > 0 && this.options.debug) {
+            this.logger.debug(
+              `Secret file changed, dropped ${deleted} cached value(s)`,
+            );
+          }
+        });
+      }
+
+      this.backends.set('file', fileBackend);
+      this.logger.log(
+        `File backend initialized for ${this.options.fileSecretsDir}`,
+      );
+    }
+
     // Initialize in-memory backend
     const memoryBackend = new InMemorySecretBackend(
       this.options.inMemorySecrets,
@@ -58,12 +314,80 @@ export class SecretManagerService implements OnModuleInit {
         `In-memory backend initialized with ${secretCount} secret(s)`,
       );
     }
+
+    // Initialize environment variable backend
+    this.backends.set(
+      'env',
+      new EnvSecretBackend({
+        prefix: this.options.envPrefix,
+        nameMapper: this.options.envNameMapper,
+      }),
+    );
+
+    // Initialize chained backend from the backends registered above
+    if (this.options.chainedBackends) {
+      const chained = this.options.chainedBackends.map((name) =>
+        this.getBackend(name),
+      );
+      this.backends.set('chain', new ChainedSecretBackend(chained));
+      this.logger.log(
+        `Chained backend initialized: ${this.options.chainedBackends.join(' -> ')}`,
+      );
+    }
   }
 
   async onModuleInit(): Promise<void> {
+    this.redactingLogger?.install();
+
+    if (this.options.invalidationTransport) {
+      this.unsubscribeInvalidations =
+        await this.options.invalidationTransport.subscribe(
+          (message) => void this.applyInvalidation(message),
+        );
+    }
+
     if (this.options.validateOnStartup !== false) {
       await this.validateAllSecrets();
+      await this.writeSnapshot();
+    }
+
+    // Drop expired entries without waiting for them to be read
+    const sweepInterval =
+      this.options.cacheSweepInterval ?? this.options.cacheTTL;
+    if (this.options.cacheEnabled !== false && sweepInterval) {
+      this.sweepTimer = setInterval(async () => {
+        const deleted = await this.cache.sweep();
+        if (deleted > 0 && this.options.debug) {
+          this.logger.debug(`Swept ${deleted} expired cache entries`);
+        }
+      }, sweepInterval);
+      this.sweepTimer.unref();
+    }
+
+    if (this.options.rotationInterval) {
+      this.watchRegisteredSecrets();
+      this.rotationTimer = setInterval(
+        () => void this.refreshSecrets(),
+        this.options.rotationInterval,
+      );
+      this.rotationTimer.unref();
+      this.logger.log(
+        `Secret rotation checks enabled every ${this.options.rotationInterval}ms`,
+      );
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.rotationTimer);
+    clearInterval(this.sweepTimer);
+    this.unsubscribeInvalidations?.();
+    this.changes.removeAllListeners();
+
+    for (const backend of this.backends.values()) {
+      await backend.close?.();
     }
+
+    this.redactingLogger?.uninstall();
   }
 
   /**
@@ -80,15 +404,53 @@ export class SecretManagerService implements OnModuleInit {
 
     this.logger.log(`Validating ${secrets.length} registered secret(s)...`);
 
+    const requests = Object.fromEntries(
+      secrets.map((secret): [string, SecretRequest] => [
+        secret.token,
+        {
+          name: secret.name,
+          version: secret.version,
+          backend: secret.backend,
+          field: secret.field,
+          transform: secret.transform,
+        },
+      ]),
+    );
+    const result: SecretBatchResult = { values: {}, errors: {} };
+    const fetching = this.fetchMany(requests, result);
+    const timeout = this.options.validationTimeout;
+
+    if (timeout === undefined) {
+      await fetching;
+    } else {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        fetching,
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, timeout);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+
     const errors: Error[] = [];
 
     for (const secret of secrets) {
-      try {
-        await this.get(secret.name, secret.version, secret.backend);
-        this.logger.log(`Secret validated: ${secret.name}`);
-      } catch (error) {
-        errors.push(error as Error);
+      const error =
+        result.errors[secret.token] ??
+        (secret.token in result.values
+          ? undefined
+          : new SecretBackendTimeoutError(
+              secret.name,
+              secret.backend ?? this.options.defaultBackend,
+              timeout ?? 0,
+            ));
+
+      if (error) {
+        errors.push(error);
         this.logger.error(`Secret validation failed: ${secret.name}`, error);
+      } else {
+        this.logger.log(`Secret validated: ${secret.name}`);
       }
     }
 
@@ -102,31 +464,139 @@ export class SecretManagerService implements OnModuleInit {
     this.logger.log(`All ${secrets.length} secret(s) validated successfully`);
   }
 
+  /**
+   * Load the offline snapshot, if configured, as a fallback for backends
+   * that are unreachable.
+   *
+   * Loaded on the first transient backend error rather than in
+   * `onModuleInit()`, since the providers of injected secrets fetch them
+   * while the module is created, before it is initialized.
+   */
+  private loadSnapshot(): Promise<void> {
+    this.snapshotLoad ??= this.readSnapshot();
+    return this.snapshotLoad;
+  }
+
+  private async readSnapshot(): Promise<void> {
+    if (!this.snapshot) {
+      return;
+    }
+
+    try {
+      for (const entry of await this.snapshot.read()) {
+        const key = this.cache.getCacheKey(
+          entry.backend,
+          entry.name,
+          entry.version,
+        );
+        // Values fetched since startup supersede the snapshot
+        if (!this.snapshotEntries?.has(key)) {
+          this.offlineSecrets.set(key, entry);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Ignoring offline secret snapshot: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Write the values fetched during startup validation to the snapshot.
+   * Skipped when any secret was served from the previous snapshot, so that
+   * a degraded start never replaces it with a partial one.
+   */
+  private async writeSnapshot(): Promise<void> {
+    const entries = this.snapshotEntries;
+    this.snapshotEntries = undefined;
+
+    if (!this.snapshot || !entries) {
+      return;
+    }
+
+    if (this.offlineServed.size > 0) {
+      this.logger.error(
+        `DEGRADED: started with ${this.offlineServed.size} secret(s) from the offline snapshot; backends are unreachable`,
+      );
+      return;
+    }
+
+    if (entries.size === 0) {
+      return;
+    }
+
+    try {
+      await this.snapshot.write(Array.from(entries.values()));
+      this.logger.log(`Wrote offline snapshot of ${entries.size} secret(s)`);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to write offline secret snapshot: ${(error as Error).message}`,
+      );
+    }
+  }
+
   /**
    * Get a secret value.
    *
-   * @param name - Secret name
+   * @param name - Secret name, or a reference such as 'gcp://db-password#3'
    * @param version - Optional version (defaults to 'latest')
    * @param backendName - Optional backend name (uses default if not specified)
-   * @returns The secret value
+   * @param options - Optional value options (JSON field to extract, transform)
+   * @returns The secret value, parsed by the transform if one is given
    */
-  async get(
+  async get<T = string>(
     name: string,
     version?: string,
     backendName?: string,
-  ): Promise<string> {
-    const backend = this.getBackend(backendName);
-    const resolvedVersion = version ?? 'latest';
+    options?: SecretValueOptions,
+  ): Promise<T> {
+    const reference = resolveSecretReference(name, version, backendName);
 
+    return (
+      await this.resolve<T>(
+        reference.name,
+        reference.version ?? 'latest',
+        this.getBackend(reference.backend),
+        options,
+      )
+    ).value;
+  }
+
+  /**
+   * Get a secret value with the metadata of its version, if known.
+   *
+   * @param read - Source of the value on a cache miss, instead of the
+   *   backend's `get()` (e.g., a batch `getMany()` result)
+   */
+  private resolve<T>(
+    name: string,
+    version: string,
+    backend: SecretBackend,
+    options?: SecretValueOptions,
+    read?: () => Promise<SecretBackendValue>,
+  ): Promise<ResolvedSecret<T>> {
     return this.tracer.startActiveSpan('secret.get', async (span) => {
       span.setAttribute('secret.name', name);
-      span.setAttribute('secret.version', resolvedVersion);
+      span.setAttribute('secret.version', version);
       span.setAttribute('secret.backend', backend.name);
+      if (options?.field !== undefined) {
+        span.setAttribute('secret.field', options.field);
+      }
 
       try {
-        const value = await this.getInternal(name, resolvedVersion, backend);
+        const { value: raw, ...metadata } = await this.getInternal(
+          name,
+          version,
+          backend,
+          read,
+        );
+        if (metadata.version !== undefined) {
+          span.setAttribute('secret.resolved_version', metadata.version);
+        }
+
+        const value = resolveSecretValue(raw, options, name, backend.name);
         span.setStatus({ code: SpanStatusCode.OK });
-        return value;
+        return { ...metadata, value: value as T };
       } catch (error) {
         span.setStatus({
           code: SpanStatusCode.ERROR,
@@ -140,23 +610,385 @@ export class SecretManagerService implements OnModuleInit {
     });
   }
 
+  /**
+   * Get a secret value with the metadata of the version it was read from,
+   * e.g. to tell which version 'latest' resolved to.
+   *
+   * Metadata is recorded when a value is fetched from a backend that
+   * reports it. It is left unset for values this instance did not fetch
+   * itself (e.g., read from a shared cache store or the offline snapshot).
+   * Metadata that takes an extra backend call (e.g., the create time and
+   * etag on GCP) is only read here, once per cached value.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password#3'
+   * @param version - Optional version (defaults to 'latest')
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @returns The secret value and version metadata
+   */
+  async getWithMetadata(
+    name: string,
+    version?: string,
+    backendName?: string,
+  ): Promise<SecretWithMetadata> {
+    const reference = resolveSecretReference(name, version, backendName);
+    const backend = this.getBackend(reference.backend);
+    const resolvedVersion = reference.version ?? 'latest';
+    const { value, ...metadata } = await this.resolve<string>(
+      reference.name,
+      resolvedVersion,
+      backend,
+    );
+    const details = await this.describeVersion(
+      backend,
+      reference.name,
+      resolvedVersion,
+      value,
+      metadata,
+    );
+
+    return {
+      value,
+      backend: metadata.backend ?? backend.name,
+      resolvedVersion: metadata.version,
+      createTime: metadata.createTime ?? details.createTime,
+      etag: metadata.etag ?? details.etag,
+      checksum: metadata.checksum,
+    };
+  }
+
+  /**
+   * Read the metadata of a resolved version that the backend only reports
+   * on request, recording it with the cached value.
+   * Values served through a chain are described by the backend that served
+   * them.
+   *
+   * @returns The metadata, or nothing if it is not needed or unavailable
+   */
+  private async describeVersion(
+    backend: SecretBackend,
+    name: string,
+    version: string,
+    value: string,
+    metadata: Omit<SecretBackendValue, 'value'>,
+  ): Promise<SecretVersionMetadata> {
+    const source =
+      (metadata.backend !== undefined && this.backends.get(metadata.backend)) ||
+      backend;
+
+    if (
+      !source.describeVersion ||
+      metadata.version === undefined ||
+      metadata.createTime !== undefined ||
+      metadata.etag !== undefined
+    ) {
+      return {};
+    }
+
+    let details: SecretVersionMetadata;
+    try {
+      details = await this.callBackend(source, name, () =>
+        source.describeVersion!(name, metadata.version!),
+      );
+    } catch (error) {
+      this.logger.debug(
+        `Cannot read metadata of secret '${name}' (backend: ${source.name}, version: ${metadata.version}): ${(error as Error).message}`,
+      );
+      return {};
+    }
+
+    const entry = this.versionMetadata.get(
+      this.cache.getCacheKey(backend.name, name, version),
+    );
+    if (entry?.digest === this.digest(value)) {
+      entry.metadata = {
+        ...entry.metadata,
+        createTime: details.createTime,
+        etag: details.etag,
+      };
+    }
+
+    return details;
+  }
+
+  /**
+   * Get several secrets at once.
+   *
+   * Secrets of backends implementing a batch `getMany()` are fetched in one
+   * call per backend; all others are fetched in parallel, at most
+   * `fetchConcurrency` at a time. Either way, each secret is served like
+   * `get()` would, including stale and offline snapshot fallbacks.
+   * Failures are reported per secret instead of rejecting the whole call.
+   *
+   * @param requests - Secrets to fetch, keyed by a name of your choice.
+   *   Each is a secret name or reference, or a request with options.
+   * @returns The values and errors, keyed like the requests
+   *
+   * @example
+   * ```typescript
+   * const { values, errors } = await secrets.getMany({
+   *   db: 'gcp://db-password',
+   *   port: { name: 'db-port', transform: 'number' },
+   * });
+   * ```
+   */
+  async getMany<T = unknown>(
+    requests: Record<string, string | SecretRequest>,
+  ): Promise<SecretBatchResult<T>> {
+    const result: SecretBatchResult<T> = { values: {}, errors: {} };
+    await this.fetchMany(requests, result);
+    return result;
+  }
+
+  /**
+   * Fetch several secrets, recording each outcome in `result` as soon as it
+   * is known, so that callers can inspect partial results.
+   */
+  private async fetchMany<T>(
+    requests: Record<string, string | SecretRequest>,
+    result: SecretBatchResult<T>,
+  ): Promise<void> {
+    const tasks: (() => Promise<void>)[] = [];
+    const batches = new Map<SecretBackend, BatchItem[]>();
+
+    const fetchOne =
+      (
+        key: string,
+        name: string,
+        version: string | undefined,
+        backendName: string | undefined,
+        options: SecretValueOptions,
+      ) =>
+      async (): Promise<void> => {
+        try {
+          result.values[key] = await this.get<T>(
+            name,
+            version,
+            backendName,
+            options,
+          );
+        } catch (error) {
+          result.errors[key] = error as Error;
+        }
+      };
+
+    for (const [key, request] of Object.entries(requests)) {
+      const {
+        name,
+        version,
+        backend: backendName,
+        ...options
+      } = typeof request === 'string' ? { name: request } : request;
+
+      try {
+        const reference = resolveSecretReference(name, version, backendName);
+        const backend = this.getBackend(reference.backend);
+        const resolvedVersion = reference.version ?? 'latest';
+
+        if (
+          backend.getMany &&
+          !(await this.cache.has(backend.name, reference.name, resolvedVersion))
+        ) {
+          const items = batches.get(backend) ?? [];
+          items.push({
+            key,
+            name: reference.name,
+            version: resolvedVersion,
+            options,
+          });
+          batches.set(backend, items);
+          continue;
+        }
+      } catch (error) {
+        result.errors[key] = error as Error;
+        continue;
+      }
+
+      tasks.push(fetchOne(key, name, version, backendName, options));
+    }
+
+    for (const [backend, items] of batches) {
+      // A batch of one gains nothing over get()
+      if (items.length === 1) {
+        const [item] = items as [BatchItem];
+        tasks.push(
+          fetchOne(
+            item.key,
+            item.name,
+            item.version,
+            backend.name,
+            item.options,
+          ),
+        );
+      } else {
+        tasks.push(() => this.fetchBatch(backend, items, result));
+      }
+    }
+
+    await runWithConcurrency(tasks, this.options.fetchConcurrency ?? 10);
+  }
+
+  /**
+   * Fetch secrets through a backend's batch `getMany()`.
+   */
+  private async fetchBatch<T>(
+    backend: SecretBackend,
+    items: BatchItem[],
+    result: SecretBatchResult<T>,
+  ): Promise<void> {
+    return this.tracer.startActiveSpan('secret.get_many', async (span) => {
+      span.setAttribute('secret.backend', backend.name);
+      span.setAttribute('secret.count', items.length);
+
+      const batch = this.callBackend(backend, `${items.length} secrets`, () =>
+        backend.getMany!(items.map(({ name, version }) => ({ name, version }))),
+      );
+      // Items served from the cache or joining an in-flight fetch never
+      // read the batch
+      batch.catch(() => undefined);
+
+      let failures = 0;
+
+      await Promise.all(
+        items.map(async (item, index) => {
+          // Each item goes through get()'s path, with the batch as its source
+          const read = async (): Promise<SecretBackendValue> => {
+            const outcome = (await batch)[index];
+            if (!outcome) {
+              throw new Error(
+                `Backend '${backend.name}' returned no result for secret '${item.name}'`,
+              );
+            }
+            if (outcome.status === 'rejected') {
+              throw outcome.reason;
+            }
+            return withRequestedVersion(outcome.value, item.version);
+          };
+
+          try {
+            const resolved = await this.resolve<T>(
+              item.name,
+              item.version,
+              backend,
+              item.options,
+              read,
+            );
+            result.values[item.key] = resolved.value;
+          } catch (error) {
+            failures++;
+            result.errors[item.key] = error as Error;
+          }
+        }),
+      );
+
+      span.setAttribute('secret.failures', failures);
+      span.setStatus({
+        code: failures > 0 ? SpanStatusCode.ERROR : SpanStatusCode.OK,
+      });
+      span.end();
+    });
+  }
+
   private async getInternal(
     name: string,
     version: string,
     backend: SecretBackend,
-  ): Promise<string> {
+    read?: () => Promise<SecretBackendValue>,
+  ): Promise<SecretBackendValue> {
+    const cacheMode = this.options.cacheMode ?? 'expire';
+    let stale: string | undefined;
+
     // Check cache first
     if (this.options.cacheEnabled !== false) {
-      const cached = this.cache.get(backend.name, name, version);
+      const cached = await this.cache.get(backend.name, name, version);
       if (cached !== undefined) {
         if (this.options.debug) {
           this.logger.debug(`Cache hit for secret: ${name}`);
         }
-        return cached;
+        return this.withCachedMetadata(backend, name, version, cached);
+      }
+
+      if (cacheMode !== 'expire') {
+        stale = await this.cache.getStale(backend.name, name, version);
+      }
+    }
+
+    if (stale !== undefined && cacheMode === 'stale-while-revalidate') {
+      this.markStale('revalidating');
+      this.revalidate(name, version, backend);
+      return this.withCachedMetadata(backend, name, version, stale);
+    }
+
+    try {
+      return await this.fetchSecret(name, version, backend, read);
+    } catch (error) {
+      if (!this.isTransientError(error)) {
+        throw error;
+      }
+
+      if (stale !== undefined) {
+        this.logger.warn(
+          `Serving stale secret '${name}' (backend: ${backend.name}): ${(error as Error).message}`,
+        );
+        this.markStale('backend_error');
+        return this.withCachedMetadata(backend, name, version, stale);
+      }
+
+      await this.loadSnapshot();
+      const key = this.cache.getCacheKey(backend.name, name, version);
+      const offline = this.offlineSecrets.get(key);
+      if (
+        offline === undefined ||
+        Date.now() - offline.fetchedAt > this.options.snapshot!.maxAge
+      ) {
+        throw error;
+      }
+
+      this.logger.warn(
+        `DEGRADED: serving secret '${name}' (backend: ${backend.name}) from the offline snapshot, fetched at ${new Date(offline.fetchedAt).toISOString()}: ${(error as Error).message}`,
+      );
+      trace.getActiveSpan()?.setAttribute('secret.offline', true);
+      this.offlineServed.add(key);
+      return { value: offline.value };
+    }
+  }
+
+  /**
+   * Fetch a secret from its backend and cache the result.
+   *
+   * Concurrent fetches of the same secret version share one backend call.
+   * The shared promise is dropped once settled, so failures are not cached.
+   */
+  private fetchSecret(
+    name: string,
+    version: string,
+    backend: SecretBackend,
+    read?: () => Promise<SecretBackendValue>,
+  ): Promise<SecretBackendValue> {
+    const key = this.cache.getCacheKey(backend.name, name, version);
+    const pending = this.inFlight.get(key);
+
+    if (pending) {
+      trace.getActiveSpan()?.setAttribute('secret.coalesced', true);
+      if (this.options.debug) {
+        this.logger.debug(`Joining in-flight fetch for secret: ${name}`);
       }
+      return pending;
     }
 
-    // Fetch from backend
+    const fetch = this.loadSecret(name, version, backend, read).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, fetch);
+
+    return fetch;
+  }
+
+  private async loadSecret(
+    name: string,
+    version: string,
+    backend: SecretBackend,
+    read?: () => Promise<SecretBackendValue>,
+  ): Promise<SecretBackendValue> {
     this.logger.log({
       msg: 'Fetching secret',
       backend: backend.name,
@@ -164,25 +996,448 @@ export class SecretManagerService implements OnModuleInit {
       version,
     });
 
-    const value = await backend.get(name, version);
-
-    // Cache the result
-    if (this.options.cacheEnabled !== false) {
-      this.cache.set(backend.name, name, value, version);
-    }
+    const fetched = read
+      ? await read()
+      : await this.readBackend(backend, name, version);
 
-    return value;
+    await this.storeFetchedValue(backend, name, version, fetched);
+    return fetched;
   }
 
   /**
-   * Get the latest version of a secret.
-   *
-   * @param name - Secret name
-   * @param backendName - Optional backend name
-   * @returns The secret value
+   * Read a secret from its backend with its version metadata, if reported.
    */
-  async getLatest(name: string, backendName?: string): Promise<string> {
-    return this.get(name, 'latest', backendName);
+  private readBackend(
+    backend: SecretBackend,
+    name: string,
+    version: string,
+  ): Promise<SecretBackendValue> {
+    return this.callBackend(backend, name, async () =>
+      backend.getWithMetadata
+        ? backend.getWithMetadata(name, version)
+        : withRequestedVersion(await backend.get(name, version), version),
+    );
+  }
+
+  /**
+   * Attach the version metadata recorded for a cached value.
+   * Nothing is attached to values this instance did not fetch itself.
+   */
+  private withCachedMetadata(
+    backend: SecretBackend,
+    name: string,
+    version: string,
+    value: string,
+  ): SecretBackendValue {
+    const entry = this.versionMetadata.get(
+      this.cache.getCacheKey(backend.name, name, version),
+    );
+
+    if (!entry || entry.digest !== this.digest(value)) {
+      return { value };
+    }
+
+    return { ...entry.metadata, value };
+  }
+
+  /**
+   * Cache a value with its version metadata.
+   */
+  private async cacheValue(
+    backend: SecretBackend,
+    name: string,
+    version: string,
+    { value, ...metadata }: SecretBackendValue,
+  ): Promise<void> {
+    await this.cache.set(backend.name, name, value, version);
+    this.versionMetadata.set(
+      this.cache.getCacheKey(backend.name, name, version),
+      { digest: this.digest(value), metadata },
+    );
+  }
+
+  /**
+   * Cache a value fetched from a backend and check it for rotation.
+   */
+  private async storeFetchedValue(
+    backend: SecretBackend,
+    name: string,
+    version: string,
+    fetched: SecretBackendValue,
+  ): Promise<void> {
+    const { value } = fetched;
+
+    if (this.options.cacheEnabled !== false) {
+      await this.cacheValue(backend, name, version, fetched);
+    }
+
+    // Fresh values supersede the offline snapshot
+    const key = this.cache.getCacheKey(backend.name, name, version);
+    this.offlineSecrets.delete(key);
+    this.snapshotEntries?.set(key, {
+      backend: backend.name,
+      name,
+      version,
+      value,
+      fetchedAt: Date.now(),
+    });
+
+    const target =
+      version === 'latest'
+        ? this.rotationTargets.get(this.getRotationKey(backend.name, name))
+        : undefined;
+    if (target) {
+      await this.recordLatestValue(target, fetched);
+    }
+  }
+
+  /**
+   * Call a backend under its retry, timeout and circuit breaker policy.
+   */
+  private callBackend<T>(
+    backend: SecretBackend,
+    name: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    let policy = this.resilience.get(backend.name);
+
+    if (!policy) {
+      policy = new BackendResilience(backend.name, {
+        ...this.options.resilience,
+        ...this.options.backendResilience?.[backend.name],
+      });
+      this.resilience.set(backend.name, policy);
+    }
+
+    return policy.execute(name, operation);
+  }
+
+  /**
+   * Re-fetch an expired secret in the background.
+   * Joins an already running fetch of the same secret version.
+   */
+  private revalidate(
+    name: string,
+    version: string,
+    backend: SecretBackend,
+  ): void {
+    this.fetchSecret(name, version, backend).catch(async (error: Error) => {
+      this.logger.warn(
+        `Background refresh failed for secret '${name}' (backend: ${backend.name}): ${error.message}`,
+      );
+
+      // A deleted or revoked secret must not be served until the grace
+      // period runs out
+      if (!this.isTransientError(error)) {
+        await this.cache.delete(backend.name, name, version);
+      }
+    });
+  }
+
+  /**
+   * Record on the active span that a stale value was served.
+   */
+  private markStale(reason: 'revalidating' | 'backend_error'): void {
+    const span = trace.getActiveSpan();
+    span?.setAttribute('secret.stale', true);
+    span?.setAttribute('secret.stale_reason', reason);
+  }
+
+  /**
+   * Whether an error may be bridged by serving a stale value.
+   * Missing secrets and denied access are definitive answers, not outages.
+   */
+  private isTransientError(error: unknown): boolean {
+    return !(
+      error instanceof SecretNotFoundError ||
+      error instanceof SecretAccessDeniedError
+    );
+  }
+
+  /**
+   * Fetch a secret from its backend, bypassing the cache.
+   * The fresh value replaces the cached one.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password#3'
+   * @param version - Optional version (defaults to 'latest')
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @param options - Optional value options (JSON field to extract, transform)
+   * @returns The secret value, parsed by the transform if one is given
+   */
+  async refresh<T = string>(
+    name: string,
+    version?: string,
+    backendName?: string,
+    options?: SecretValueOptions,
+  ): Promise<T> {
+    const reference = resolveSecretReference(name, version, backendName);
+    const backend = this.getBackend(reference.backend);
+
+    await this.cache.delete(backend.name, reference.name, reference.version);
+
+    return this.get<T>(name, version, backendName, options);
+  }
+
+  /**
+   * Get a live handle to a secret.
+   *
+   * Unlike `get()`, the handle's `value` follows rotations of 'latest'
+   * secrets, so long-lived consumers always see the current value.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password'
+   * @param version - Optional version (defaults to 'latest')
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @param options - Optional value options (JSON field to extract, transform)
+   * @returns A handle resolved with the current value
+   */
+  async getRef<T = string>(
+    name: string,
+    version?: string,
+    backendName?: string,
+    options?: SecretValueOptions,
+  ): Promise<SecretRef<T>> {
+    const reference = resolveSecretReference(name, version, backendName);
+    const backend = this.getBackend(reference.backend);
+    const requestedVersion = reference.version ?? 'latest';
+    let ref: SecretRef<T> | undefined;
+
+    // Subscribe before fetching so the fetched value is the rotation baseline
+    const unsubscribe =
+      reference.version === undefined
+        ? this.subscribe(backend, reference.name, (event) =>
+            ref?.update(
+              resolveSecretValue(
+                event.value,
+                options,
+                event.name,
+                event.backend,
+              ) as T,
+              event.version ?? requestedVersion,
+            ),
+          )
+        : undefined;
+
+    const load = async (): Promise<SecretRefValue<T>> => {
+      const resolved = await this.resolve<T>(
+        reference.name,
+        requestedVersion,
+        backend,
+        options,
+      );
+      return {
+        value: resolved.value,
+        version: resolved.version ?? requestedVersion,
+      };
+    };
+
+    try {
+      ref = new SecretRef<T>(
+        async () => {
+          await this.cache.delete(
+            backend.name,
+            reference.name,
+            requestedVersion,
+          );
+          return load();
+        },
+        reference.name,
+        backend.name,
+        await load(),
+      );
+    } catch (error) {
+      unsubscribe?.();
+      throw error;
+    }
+
+    return ref;
+  }
+
+  /**
+   * Subscribe to changes of a secret's 'latest' value.
+   *
+   * Changes are detected by the background refresh loop (see
+   * `rotationInterval`), by `refreshSecrets()`, and whenever a fetch
+   * after cache expiry returns a new value.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password'
+   * @param listener - Called with the new value
+   * @returns A function that removes the subscription
+   */
+  onChange(name: string, listener: SecretChangeListener): () => void {
+    const reference = resolveSecretReference(name);
+
+    if (reference.version !== undefined) {
+      throw new Error(
+        `Cannot subscribe to '${name}': only 'latest' secrets rotate`,
+      );
+    }
+
+    return this.subscribe(
+      this.getBackend(reference.backend),
+      reference.name,
+      listener,
+    );
+  }
+
+  private subscribe(
+    backend: SecretBackend,
+    name: string,
+    listener: SecretChangeListener,
+  ): () => void {
+    this.trackRotation(backend, name);
+
+    const key = this.getRotationKey(backend.name, name);
+    const handler = (event: SecretChangeEvent): void => {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch((error: Error) => {
+          this.logger.error(
+            `Secret change listener failed for '${event.name}': ${error.message}`,
+            error.stack,
+          );
+        });
+    };
+
+    this.changes.on(key, handler);
+    return () => {
+      this.changes.off(key, handler);
+
+      // Stop polling secrets nobody listens to anymore
+      if (
+        this.changes.listenerCount(key) === 0 &&
+        !this.rotationTargets.get(key)?.registered
+      ) {
+        this.rotationTargets.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Watch the registered 'latest' secrets for rotation.
+   */
+  private watchRegisteredSecrets(): void {
+    for (const secret of secretRegistry.getAll()) {
+      const backend = this.backends.get(
+        secret.backend ?? this.options.defaultBackend,
+      );
+
+      if (backend && (secret.version ?? 'latest') === 'latest') {
+        this.trackRotation(backend, secret.name).registered = true;
+      }
+    }
+  }
+
+  /**
+   * Re-fetch all watched 'latest' secrets and notify subscribers of changes.
+   * Watched are the secrets registered for injection (while
+   * `rotationInterval` is set) and those with subscribers.
+   * Called periodically when `rotationInterval` is set.
+   */
+  async refreshSecrets(): Promise<void> {
+    // Skip if the previous refresh is still running
+    if (this.refreshing) {
+      return;
+    }
+
+    this.refreshing = true;
+
+    try {
+      for (const target of this.rotationTargets.values()) {
+        try {
+          const fetched = await this.readBackend(
+            target.backend,
+            target.name,
+            'latest',
+          );
+          await this.recordLatestValue(target, fetched);
+        } catch (error) {
+          this.logger.warn(
+            `Secret rotation check failed: ${target.name}: ${(error as Error).message}`,
+          );
+        }
+      }
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /**
+   * Start watching a 'latest' secret for rotation.
+   */
+  private trackRotation(backend: SecretBackend, name: string): RotationTarget {
+    const key = this.getRotationKey(backend.name, name);
+    let target = this.rotationTargets.get(key);
+
+    if (!target) {
+      target = { backend, name };
+      this.rotationTargets.set(key, target);
+
+      // Use an already cached value as the baseline for change detection
+      const tracked = target;
+      void this.cache.peek(backend.name, name, 'latest').then((cached) => {
+        if (cached !== undefined && tracked.digest === undefined) {
+          tracked.digest = this.digest(cached);
+        }
+      });
+    }
+
+    return target;
+  }
+
+  /**
+   * Record a freshly fetched 'latest' value, updating the cache and
+   * notifying subscribers if it differs from the last seen value.
+   */
+  private async recordLatestValue(
+    target: RotationTarget,
+    fetched: SecretBackendValue,
+  ): Promise<void> {
+    const { value } = fetched;
+    const digest = this.digest(value);
+    const changed = target.digest !== undefined && target.digest !== digest;
+    target.digest = digest;
+
+    if (!changed) {
+      return;
+    }
+
+    this.logger.log(
+      `Secret rotated: ${target.name} (backend: ${target.backend.name})`,
+    );
+
+    if (this.options.cacheEnabled !== false) {
+      await this.cacheValue(target.backend, target.name, 'latest', fetched);
+    }
+
+    const event: SecretChangeEvent = {
+      name: target.name,
+      backend: target.backend.name,
+      value,
+      version: fetched.version,
+    };
+    this.changes.emit(
+      this.getRotationKey(target.backend.name, target.name),
+      event,
+    );
+  }
+
+  private digest(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private getRotationKey(backend: string, name: string): string {
+    return `${backend}:${name}`;
+  }
+
+  /**
+   * Get the latest version of a secret.
+   *
+   * @param name - Secret name
+   * @param backendName - Optional backend name
+   * @returns The secret value
+   */
+  async getLatest(name: string, backendName?: string): Promise<string> {
+    return this.get(name, 'latest', backendName);
   }
 
   /**
@@ -210,14 +1465,334 @@ export class SecretManagerService implements OnModuleInit {
     return this.backends.get('memory') as InMemorySecretBackend;
   }
 
+  /**
+   * Get the redacting logger installed with the `redactLogs` option.
+   * Other secret values can be added to it for masking.
+   */
+  getRedactingLogger(): RedactingLogger | undefined {
+    return this.redactingLogger;
+  }
+
+  /**
+   * Get secret cache statistics (hits, misses, evictions, size).
+   */
+  getStats(): SecretCacheStats {
+    return this.cache.getStats();
+  }
+
   /**
    * Clear the secret cache.
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
     this.logger.log('Secret cache cleared');
   }
 
+  /**
+   * Create a secret without any versions.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password'
+   * @param options - Optional settings for the new secret (e.g., labels)
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @throws SecretOperationNotSupportedError if the backend is read-only
+   */
+  async createSecret(
+    name: string,
+    options: SecretCreateOptions = {},
+    backendName?: string,
+  ): Promise<void> {
+    const reference = resolveSecretReference(name, undefined, backendName);
+    const backend = this.getBackendSupporting(
+      reference.backend,
+      'createSecret',
+    );
+
+    this.logger.log({
+      msg: 'Creating secret',
+      backend: backend.name,
+      name: reference.name,
+    });
+    await backend.createSecret(reference.name, options);
+  }
+
+  /**
+   * Add a version to a secret, making it the latest version.
+   * The cached 'latest' value is invalidated.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password'
+   * @param value - The value of the new version
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @returns The ID of the new version
+   * @throws SecretOperationNotSupportedError if the backend is read-only
+   */
+  async addVersion(
+    name: string,
+    value: string,
+    backendName?: string,
+  ): Promise<string> {
+    const reference = resolveSecretReference(name, undefined, backendName);
+    const backend = this.getBackendSupporting(reference.backend, 'addVersion');
+
+    this.logger.log({
+      msg: 'Adding secret version',
+      backend: backend.name,
+      name: reference.name,
+    });
+    const version = await backend.addVersion(reference.name, value);
+
+    await this.invalidate(reference.name, {
+      version: 'latest',
+      backend: backend.name,
+    });
+    return version;
+  }
+
+  /**
+   * Disable a version of a secret, so that it can no longer be read.
+   * Every cached version of the secret is invalidated, since 'latest'
+   * may have resolved to the disabled version.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password#3'
+   * @param version - The version to disable, unless given by the reference
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @throws SecretOperationNotSupportedError if the backend is read-only
+   * @throws Error if no specific version is given
+   */
+  async disableVersion(
+    name: string,
+    version?: string,
+    backendName?: string,
+  ): Promise<void> {
+    await this.deactivateVersion('disableVersion', name, version, backendName);
+  }
+
+  /**
+   * Irreversibly destroy a version of a secret.
+   * Every cached version of the secret is invalidated, since 'latest'
+   * may have resolved to the destroyed version.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password#3'
+   * @param version - The version to destroy, unless given by the reference
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @throws SecretOperationNotSupportedError if the backend is read-only
+   * @throws Error if no specific version is given
+   */
+  async destroyVersion(
+    name: string,
+    version?: string,
+    backendName?: string,
+  ): Promise<void> {
+    await this.deactivateVersion('destroyVersion', name, version, backendName);
+  }
+
+  private async deactivateVersion(
+    operation: 'disableVersion' | 'destroyVersion',
+    name: string,
+    version: string | undefined,
+    backendName: string | undefined,
+  ): Promise<void> {
+    const reference = resolveSecretReference(name, version, backendName);
+    const versionId = reference.version;
+
+    // Never deactivate whatever 'latest' happens to be by omission
+    if (versionId === undefined || versionId === 'latest') {
+      throw new Error(
+        `Cannot ${operation === 'disableVersion' ? 'disable' : 'destroy'} '${name}': a specific version is required`,
+      );
+    }
+
+    const backend = this.getBackendSupporting(reference.backend, operation);
+
+    this.logger.log({
+      msg:
+        operation === 'disableVersion'
+          ? 'Disabling secret version'
+          : 'Destroying secret version',
+      backend: backend.name,
+      name: reference.name,
+      version: versionId,
+    });
+    await backend[operation](reference.name, versionId);
+
+    await this.invalidate(reference.name, { backend: backend.name });
+  }
+
+  /**
+   * List the secrets of a backend, one page at a time.
+   *
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @param options - Backend-specific filter, and page to list
+   * @returns One page of secrets, with the token of the next page
+   * @throws SecretOperationNotSupportedError if the backend cannot list secrets
+   *
+   * @example
+   * ```typescript
+   * let pageToken: string | undefined;
+   * do {
+   *   const page = await secrets.listSecrets('gcp', { pageToken });
+   *   // ...
+   *   pageToken = page.nextPageToken;
+   * } while (pageToken);
+   * ```
+   */
+  async listSecrets(
+    backendName?: string,
+    options: SecretListOptions = {},
+  ): Promise<SecretListPage> {
+    const backend = this.getBackendSupporting(backendName, 'listSecrets');
+    return backend.listSecrets(options);
+  }
+
+  /**
+   * List all versions of a secret with their state and create time,
+   * newest first.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password'
+   * @param backendName - Optional backend name (uses default if not specified)
+   * @returns The versions, including disabled and destroyed ones
+   * @throws SecretOperationNotSupportedError if the backend cannot list versions
+   */
+  async listVersions(
+    name: string,
+    backendName?: string,
+  ): Promise<SecretVersionInfo[]> {
+    const reference = resolveSecretReference(name, undefined, backendName);
+    const backend = this.getBackendSupporting(
+      reference.backend,
+      'listVersions',
+    );
+    return backend.listVersions(reference.name);
+  }
+
+  /**
+   * Get a backend that implements an optional operation.
+   *
+   * @throws SecretOperationNotSupportedError if the backend does not
+   */
+  private getBackendSupporting<K extends SecretBackendOperation>(
+    name: string | undefined,
+    operation: K,
+  ): SecretBackend & Required<Pick<SecretBackend, K>> {
+    const backend = this.getBackend(name);
+
+    if (!backend[operation]) {
+      throw new SecretOperationNotSupportedError(operation, backend.name);
+    }
+
+    return backend as SecretBackend & Required<Pick<SecretBackend, K>>;
+  }
+
+  /**
+   * Drop a secret from the cache, so that the next read fetches it again.
+   * The invalidation is broadcast through the invalidation transport.
+   *
+   * Invalidating every version requires a cache store that can list its
+   * keys; otherwise only 'latest' is dropped.
+   *
+   * @param name - Secret name, or a reference such as 'gcp://db-password#3'
+   * @param options - Version to invalidate (all by default) and backend
+   * @returns The number of cache entries dropped in this instance
+   */
+  async invalidate(
+    name: string,
+    options: SecretInvalidationOptions = {},
+  ): Promise<number> {
+    const reference = resolveSecretReference(
+      name,
+      options.version,
+      options.backend,
+    );
+    const backend = this.getBackend(reference.backend);
+    // An explicit 'latest', passed or in the reference, targets that entry only
+    const explicitLatest =
+      options.version === 'latest' ||
+      (isSecretReference(name) &&
+        parseSecretReference(name).version === 'latest');
+    const version =
+      reference.version ?? (explicitLatest ? 'latest' : undefined);
+
+    return this.broadcastInvalidation({
+      origin: this.instanceId,
+      backend: backend.name,
+      name: reference.name,
+      version,
+    });
+  }
+
+  /**
+   * Drop every cached secret of a backend.
+   * The invalidation is broadcast through the invalidation transport.
+   * Requires a cache store that can list its keys.
+   *
+   * @param name - Backend name
+   * @returns The number of cache entries dropped in this instance
+   */
+  async invalidateBackend(name: string): Promise<number> {
+    const backend = this.getBackend(name);
+
+    return this.broadcastInvalidation({
+      origin: this.instanceId,
+      backend: backend.name,
+    });
+  }
+
+  private async broadcastInvalidation(
+    message: SecretInvalidationMessage,
+  ): Promise<number> {
+    const deleted = await this.evict(message);
+
+    try {
+      await this.options.invalidationTransport?.publish(message);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to broadcast invalidation of ${this.describeInvalidation(message)}: ${(error as Error).message}`,
+      );
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Apply an invalidation received from another instance.
+   */
+  private async applyInvalidation(
+    message: SecretInvalidationMessage,
+  ): Promise<void> {
+    if (message.origin === this.instanceId) {
+      return;
+    }
+
+    const deleted = await this.evict(message);
+    if (this.options.debug) {
+      this.logger.debug(
+        `Invalidated ${this.describeInvalidation(message)} (${deleted} cache entries)`,
+      );
+    }
+  }
+
+  private async evict(message: SecretInvalidationMessage): Promise<number> {
+    const { backend, name, version } = message;
+
+    if (name !== undefined && version !== undefined) {
+      return (await this.cache.delete(backend, name, version)) ? 1 : 0;
+    }
+
+    // Stores that cannot list their keys only drop 'latest'
+    if (name !== undefined && !this.cache.canListKeys) {
+      return (await this.cache.delete(backend, name)) ? 1 : 0;
+    }
+
+    return this.cache.invalidate(backend, name);
+  }
+
+  private describeInvalidation(message: SecretInvalidationMessage): string {
+    if (message.name === undefined) {
+      return `backend '${message.backend}'`;
+    }
+
+    return `secret '${message.name}' (backend: ${message.backend}, version: ${message.version ?? 'all'})`;
+  }
+
   /**
    * Register a custom backend.
    *
@@ -225,6 +1800,7 @@ export class SecretManagerService implements OnModuleInit {
    */
   registerBackend(backend: SecretBackend): void {
     this.backends.set(backend.name, backend);
+    this.resilience.delete(backend.name);
     this.logger.log(`Registered custom backend: ${backend.name}`);
   }
 }
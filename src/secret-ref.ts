@@ -0,0 +1,75 @@
+/**
+ * A secret value with the version it was resolved to.
+ */
+export interface SecretRefValue<T> {
+  value: T;
+  version: string;
+}
+
+/**
+ * Live handle to a secret.
+ *
+ * Injected with `@InjectSecretRef` or created with
+ * `SecretManagerService.getRef()`. For 'latest' secrets, `value` is updated
+ * whenever a rotation is detected, so long-lived singletons (HTTP clients,
+ * DB pools) can read the current value without holding the service.
+ */
+export class SecretRef<T = string> {
+  private current: T;
+  private currentVersion: string;
+
+  /**
+   * @param reload - Fetches the secret from its backend, bypassing the cache
+   * @param name - Secret name
+   * @param backend - Backend name
+   * @param initial - Current value and version
+   */
+  constructor(
+    private readonly reload: () => Promise<SecretRefValue<T>>,
+    readonly name: string,
+    readonly backend: string,
+    initial: SecretRefValue<T>,
+  ) {
+    this.current = initial.value;
+    this.currentVersion = initial.version;
+  }
+
+  /**
+   * The current secret value.
+   */
+  get value(): T {
+    return this.current;
+  }
+
+  /**
+   * The version the current value was resolved to (e.g., '7' when 'latest'
+   * was requested), or the requested version if the backend does not
+   * report versions.
+   */
+  get version(): string {
+    return this.currentVersion;
+  }
+
+  /**
+   * Fetch the secret from its backend, bypassing the cache.
+   *
+   * @returns The refreshed value
+   */
+  async refresh(): Promise<T> {
+    const { value, version } = await this.reload();
+    this.update(value, version);
+    return value;
+  }
+
+  /**
+   * Replace the current value.
+   * Called by the service when a rotation is detected.
+   *
+   * @param value - New value
+   * @param version - Version the new value was resolved to
+   */
+  update(value: T, version: string): void {
+    this.current = value;
+    this.currentVersion = version;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * A secret reference split into its parts.
+ */
+export interface ParsedSecretReference {
+  name: string;
+  version?: string;
+  backend?: string;
+}
+
+const REFERENCE_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/([^#]*)(?:#(.*))?$/i;
+
+// Full GCP resource name, e.g. projects/p/secrets/db/versions/3
+const GCP_RESOURCE_PATTERN =
+  /^(projects\/[^/]+\/secrets\/[^/]+)(?:\/versions\/([^/]+))?$/;
+
+/**
+ * Check whether a string is a URI-style secret reference
+ * (e.g., 'gcp://db-password#3' or 'env://API_KEY').
+ */
+export function isSecretReference(value: string): boolean {
+  return REFERENCE_PATTERN.test(value);
+}
+
+/**
+ * Parse a URI-style secret reference.
+ *
+ * Supported forms:
+ * - `<backend>://<name>` (e.g., 'memory://api-key', 'env://API_KEY')
+ * - `<backend>://<name>#<version>` (e.g., 'gcp://db-password#3')
+ * - `gcp://projects/<project>/secrets/<name>/versions/<version>`
+ *
+ * @param reference - The secret reference
+ * @returns The backend, name and version encoded in the reference
+ * @throws Error if the reference is malformed
+ */
+export function parseSecretReference(reference: string): ParsedSecretReference {
+  const match = REFERENCE_PATTERN.exec(reference);
+
+  if (!match) {
+    throw new Error(`Invalid secret reference: '${reference}'`);
+  }
+
+  const backend = match[1]!.toLowerCase();
+  let name = decodeURIComponent(match[2]!);
+  let version = match[3] ? decodeURIComponent(match[3]) : undefined;
+
+  if (backend === 'gcp') {
+    const resource = GCP_RESOURCE_PATTERN.exec(name);
+    if (resource) {
+      if (resource[2] && version && resource[2] !== version) {
+        throw new Error(
+          `Invalid secret reference: '${reference}' specifies two versions`,
+        );
+      }
+      name = resource[1]!;
+      version = resource[2] ?? version;
+    }
+  }
+
+  if (!name) {
+    throw new Error(
+      `Invalid secret reference: '${reference}' has no secret name`,
+    );
+  }
+
+  return { backend, name, version };
+}
+
+/**
+ * Resolve a secret name, which may be a URI-style reference, together with
+ * explicitly passed version and backend into a normalized form.
+ *
+ * Explicit values fill in what the reference leaves out; conflicting values
+ * are rejected so that a reference is never silently overridden.
+ *
+ * @param name - Secret name or reference
+ * @param version - Explicit version
+ * @param backend - Explicit backend
+ * @returns The normalized reference, with 'latest' versions left unset
+ * @throws Error if the reference is malformed or conflicts with explicit values
+ */
+export function resolveSecretReference(
+  name: string,
+  version?: string,
+  backend?: string,
+): ParsedSecretReference {
+  if (!isSecretReference(name)) {
+    return { name, version: normalizeVersion(version), backend };
+  }
+
+  const parsed = parseSecretReference(name);
+  const refVersion = normalizeVersion(parsed.version);
+  const explicitVersion = normalizeVersion(version);
+
+  if (backend !== undefined && backend !== parsed.backend) {
+    throw new Error(
+      `Secret reference '${name}' conflicts with backend '${backend}'`,
+    );
+  }
+
+  if (
+    refVersion !== undefined &&
+    explicitVersion !== undefined &&
+    refVersion !== explicitVersion
+  ) {
+    throw new Error(
+      `Secret reference '${name}' conflicts with version '${version}'`,
+    );
+  }
+
+  return {
+    name: parsed.name,
+    version: refVersion ?? explicitVersion,
+    backend: parsed.backend,
+  };
+}
+
+function normalizeVersion(version?: string): string | undefined {
+  return version === 'latest' ? undefined : version;
+}
@@ -0,0 +1,62 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+
+import { SECRET_ROTATED_METADATA } from './constants';
+import { SecretChangeEvent } from './interfaces/secret-change-event.interface';
+import { SecretManagerService } from './secret-manager.service';
+
+/**
+ * Subscribes provider and controller methods decorated with
+ * @OnSecretRotated to secret change events.
+ */
+@Injectable()
+export class SecretRotationExplorer implements OnModuleInit {
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    private readonly secretManager: SecretManagerService,
+  ) {}
+
+  onModuleInit(): void {
+    const wrappers = [
+      ...this.discovery.getProviders(),
+      ...this.discovery.getControllers(),
+    ];
+
+    for (const wrapper of wrappers) {
+      const instance = wrapper.instance as Record<string, unknown> | undefined;
+
+      // Request-scoped providers have no single instance to notify
+      if (
+        !instance ||
+        typeof instance !== 'object' ||
+        !wrapper.isDependencyTreeStatic()
+      ) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance) as object | null;
+
+      for (const methodName of this.metadataScanner.getAllMethodNames(
+        prototype,
+      )) {
+        const method = instance[methodName];
+        if (typeof method !== 'function') {
+          continue;
+        }
+
+        const secretName = this.reflector.get<string | undefined>(
+          SECRET_ROTATED_METADATA,
+          method,
+        );
+
+        if (secretName !== undefined) {
+          this.secretManager.onChange(secretName, (event: SecretChangeEvent) =>
+            method.call(instance, event),
+          );
+        }
+      }
+    }
+  }
+}
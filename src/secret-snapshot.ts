@@ -0,0 +1,134 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { readFile, rename, writeFile } from 'fs/promises';
+
+import { SecretSnapshotOptions } from './interfaces/secret-manager-options.interface';
+
+/**
+ * A resolved secret stored in an offline snapshot.
+ */
+export interface SecretSnapshotEntry {
+  backend: string;
+  name: string;
+  version: string;
+  value: string;
+
+  /**
+   * When the value was fetched, in milliseconds since the epoch.
+   */
+  fetchedAt: number;
+}
+
+interface SnapshotFile {
+  format: 1;
+  createdAt: number;
+  iv: string;
+  authTag: string;
+  data: string;
+}
+
+const AAD = Buffer.from('nestjs-secret-manager-snapshot');
+
+/**
+ * Encrypted on-disk snapshot of resolved secrets.
+ *
+ * The snapshot is a JSON document whose entries are encrypted with
+ * AES-256-GCM, so it can be read back only with the same key and any
+ * tampering is detected.
+ */
+export class SecretSnapshot {
+  private readonly key: Buffer;
+
+  constructor(private readonly options: SecretSnapshotOptions) {
+    this.key =
+      typeof options.key === 'string'
+        ? Buffer.from(options.key, 'base64')
+        : options.key;
+
+    if (this.key.length !== 32) {
+      throw new Error(
+        `Secret snapshot key must be 32 bytes, got ${this.key.length}`,
+      );
+    }
+  }
+
+  /**
+   * Write the snapshot, replacing any previous one.
+   * The file is written next to its destination first, then renamed, so a
+   * crash never leaves a truncated snapshot behind.
+   *
+   * @param entries - Resolved secrets
+   */
+  async write(entries: SecretSnapshotEntry[]): Promise<void> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(AAD);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(entries), 'utf-8'),
+      cipher.final(),
+    ]);
+
+    const file: SnapshotFile = {
+      format: 1,
+      createdAt: Date.now(),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    const temporaryPath = `${this.options.path}.${process.pid}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(file), { mode: 0o600 });
+    await rename(temporaryPath, this.options.path);
+  }
+
+  /**
+   * Read the entries of the snapshot that are within the maximum age.
+   *
+   * @returns The entries, or an empty list if there is no snapshot
+   * @throws Error if the snapshot is malformed or was written with another key
+   */
+  async read(): Promise<SecretSnapshotEntry[]> {
+    let contents: string;
+
+    try {
+      contents = await readFile(this.options.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(contents) as SnapshotFile;
+    if (file.format !== 1) {
+      throw new Error(`Unsupported secret snapshot format: ${file.format}`);
+    }
+
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.key,
+      Buffer.from(file.iv, 'base64'),
+    );
+    decipher.setAAD(AAD);
+    decipher.setAuthTag(Buffer.from(file.authTag, 'base64'));
+
+    let plaintext: Buffer;
+    try {
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]);
+    } catch {
+      throw new Error(
+        'Cannot decrypt secret snapshot: wrong key or corrupted file',
+      );
+    }
+
+    const entries = JSON.parse(
+      plaintext.toString('utf-8'),
+    ) as SecretSnapshotEntry[];
+    plaintext.fill(0);
+
+    const oldest = Date.now() - this.options.maxAge;
+    return entries.filter((entry) => entry.fetchedAt >= oldest);
+  }
+}
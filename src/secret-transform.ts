@@ -0,0 +1,92 @@
+import { createPrivateKey, createPublicKey } from 'crypto';
+
+import { SecretTransformError } from './errors/secret-transform.error';
+import { SecretTransform } from './interfaces/secret-manager-options.interface';
+
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'on']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'off']);
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]*={0,2}$/;
+
+/**
+ * Apply a transform to a secret value.
+ *
+ * Error reasons never include the secret value itself, so they are
+ * safe to log during startup validation.
+ *
+ * @param value - Secret value
+ * @param transform - Built-in parser name or custom function
+ * @param secretName - Secret name, for error reporting
+ * @param backend - Backend name, for error reporting
+ * @returns The parsed value
+ * @throws SecretTransformError if the value cannot be parsed
+ */
+export function applySecretTransform(
+  value: string,
+  transform: SecretTransform,
+  secretName: string,
+  backend: string,
+): unknown {
+  const transformName =
+    typeof transform === 'string' ? transform : transform.name || 'custom';
+
+  const fail = (reason: string): never => {
+    throw new SecretTransformError(secretName, backend, transformName, reason);
+  };
+
+  if (typeof transform === 'function') {
+    try {
+      return transform(value);
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+  }
+
+  switch (transform) {
+    case 'number': {
+      const trimmed = value.trim();
+      const parsed = Number(trimmed);
+      if (trimmed === '' || !Number.isFinite(parsed)) {
+        fail('value is not a number');
+      }
+      return parsed;
+    }
+
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) {
+        return true;
+      }
+      if (FALSE_VALUES.has(normalized)) {
+        return false;
+      }
+      return fail('value is not a boolean');
+    }
+
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return fail('value is not valid JSON');
+      }
+
+    case 'base64': {
+      const compact = value.replace(/\s+/g, '');
+      if (!BASE64_PATTERN.test(compact)) {
+        fail('value is not valid base64');
+      }
+      return Buffer.from(compact, 'base64');
+    }
+
+    case 'pem':
+      try {
+        return value.includes('PRIVATE KEY')
+          ? createPrivateKey(value)
+          : createPublicKey(value);
+      } catch {
+        return fail('value is not a valid PEM key or certificate');
+      }
+
+    default:
+      return fail('unknown transform');
+  }
+}
@@ -0,0 +1,35 @@
+import { SecretValueOptions } from './interfaces/secret-manager-options.interface';
+import { RedactedSecret } from './redacted-secret';
+import { extractSecretField } from './secret-field';
+import { applySecretTransform } from './secret-transform';
+
+/**
+ * Apply field extraction and transform options to a raw secret value.
+ *
+ * @param raw - Raw secret value as returned by the backend
+ * @param options - Field and transform to apply
+ * @param secretName - Secret name, for error reporting
+ * @param backend - Backend name, for error reporting
+ * @returns The extracted and transformed value, wrapped in a
+ *   `RedactedSecret` if the `redact` option is set
+ */
+export function resolveSecretValue(
+  raw: string,
+  options: SecretValueOptions | undefined,
+  secretName: string,
+  backend: string,
+): unknown {
+  const value =
+    options?.field === undefined
+      ? raw
+      : extractSecretField(raw, options.field, secretName, backend);
+
+  const transformed =
+    options?.transform === undefined
+      ? value
+      : applySecretTransform(value, options.transform, secretName, backend);
+
+  return options?.redact
+    ? new RedactedSecret(secretName, transformed)
+    : transformed;
+}
@@ -0,0 +1,198 @@
+import {
+  KeyObject,
+  createCipheriv,
+  createDecipheriv,
+  createSecretKey,
+  randomBytes,
+} from 'crypto';
+
+import {
+  SecretCacheEntry,
+  SecretCacheStore,
+  SecretCacheStoreStats,
+} from '../interfaces/secret-cache-store.interface';
+
+/**
+ * Size limits for the in-memory cache store.
+ */
+export interface SecretCacheLimits {
+  /**
+   * Maximum number of cached entries.
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total size of cached keys and values, in bytes.
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Options for the in-memory cache store.
+ */
+export interface InMemorySecretCacheStoreOptions extends SecretCacheLimits {
+  /**
+   * Whether to encrypt cached values with an ephemeral AES-256-GCM key
+   * generated for this store, so that plaintext values do not stay in
+   * the heap (e.g., in heap snapshots and core dumps).
+   * @default false
+   */
+  encrypt?: boolean;
+}
+
+interface StoredEntry {
+  data: Buffer;
+  iv?: Buffer;
+  authTag?: Buffer;
+  cachedAt: number;
+  bytes: number;
+}
+
+/**
+ * In-process cache store backed by a `Map`.
+ * This is the default store.
+ *
+ * Values are held as Buffers that are zeroed when entries are replaced,
+ * deleted, evicted or cleared. With size limits, the least recently used
+ * entries are evicted first.
+ */
+export class InMemorySecretCacheStore implements SecretCacheStore {
+  private readonly entries = new Map<string, StoredEntry>();
+  private readonly key?: KeyObject;
+  private readonly evictListeners: ((key: string) => void)[] = [];
+  private bytes = 0;
+  private evictions = 0;
+
+  constructor(private readonly options: InMemorySecretCacheStoreOptions = {}) {
+    if (options.encrypt) {
+      // The KeyObject keeps its own copy; zero the raw key material
+      const material = randomBytes(32);
+      this.key = createSecretKey(material);
+      material.fill(0);
+    }
+  }
+
+  get(key: string): SecretCacheEntry | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return { value: this.decode(key, entry), cachedAt: entry.cachedAt };
+  }
+
+  set(key: string, entry: SecretCacheEntry): void {
+    this.delete(key);
+
+    const stored = this.encode(key, entry.value, entry.cachedAt);
+    this.entries.set(key, stored);
+    this.bytes += stored.bytes;
+
+    this.enforceLimits();
+  }
+
+  delete(key: string): boolean {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+    entry.data.fill(0);
+    return true;
+  }
+
+  clear(): void {
+    for (const entry of this.entries.values()) {
+      entry.data.fill(0);
+    }
+
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  onEvict(listener: (key: string) => void): void {
+    this.evictListeners.push(listener);
+  }
+
+  getStats(): SecretCacheStoreStats {
+    return {
+      size: this.entries.size,
+      bytes: this.bytes,
+      evictions: this.evictions,
+    };
+  }
+
+  private encode(key: string, value: string, cachedAt: number): StoredEntry {
+    if (!this.key) {
+      const data = Buffer.from(value, 'utf-8');
+      return { data, cachedAt, bytes: Buffer.byteLength(key) + data.length };
+    }
+
+    // The cache key is authenticated, so entries cannot be swapped
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(Buffer.from(key));
+    const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+
+    return {
+      data,
+      iv,
+      authTag: cipher.getAuthTag(),
+      cachedAt,
+      bytes: Buffer.byteLength(key) + data.length,
+    };
+  }
+
+  private decode(key: string, entry: StoredEntry): string {
+    if (!this.key) {
+      return entry.data.toString('utf-8');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', this.key, entry.iv!);
+    decipher.setAAD(Buffer.from(key));
+    decipher.setAuthTag(entry.authTag!);
+    // GCM is a stream mode, so final() only verifies the tag
+    const plaintext = decipher.update(entry.data);
+
+    try {
+      decipher.final();
+      return plaintext.toString('utf-8');
+    } finally {
+      plaintext.fill(0);
+    }
+  }
+
+  /**
+   * Evict least recently used entries until the size limits are met.
+   */
+  private enforceLimits(): void {
+    const { maxEntries, maxBytes } = this.options;
+
+    for (const key of this.entries.keys()) {
+      if (
+        (maxEntries === undefined || this.entries.size <= maxEntries) &&
+        (maxBytes === undefined || this.bytes <= maxBytes)
+      ) {
+        return;
+      }
+
+      this.delete(key);
+      this.evictions++;
+      for (const listener of this.evictListeners) {
+        listener(key);
+      }
+    }
+  }
+}
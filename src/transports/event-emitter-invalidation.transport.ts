@@ -0,0 +1,43 @@
+import { EventEmitter } from 'events';
+
+import {
+  InvalidationTransport,
+  SecretInvalidationListener,
+  SecretInvalidationMessage,
+} from '../interfaces/invalidation-transport.interface';
+
+const INVALIDATION_EVENT = 'invalidate';
+
+/**
+ * In-process invalidation transport backed by an `EventEmitter`.
+ *
+ * Share one instance between the modules of a process, or bridge the
+ * emitter to a message bus to reach other processes.
+ *
+ * @example
+ * ```typescript
+ * const transport = new EventEmitterInvalidationTransport();
+ * transport.getEmitter().on('invalidate', (message) => bus.send(message));
+ * ```
+ */
+export class EventEmitterInvalidationTransport implements InvalidationTransport {
+  constructor(private readonly emitter = new EventEmitter()) {}
+
+  publish(message: SecretInvalidationMessage): void {
+    this.emitter.emit(INVALIDATION_EVENT, message);
+  }
+
+  subscribe(listener: SecretInvalidationListener): () => void {
+    this.emitter.on(INVALIDATION_EVENT, listener);
+    return () => {
+      this.emitter.off(INVALIDATION_EVENT, listener);
+    };
+  }
+
+  /**
+   * Get the underlying emitter.
+   */
+  getEmitter(): EventEmitter {
+    return this.emitter;
+  }
+}
@@ -0,0 +1,273 @@
+import { Span, trace } from '@opentelemetry/api';
+
+import {
+  BackendResilience,
+  isTransientBackendError,
+} from '../src/backend-resilience';
+import { SecretBackendTimeoutError } from '../src/errors/secret-backend-timeout.error';
+import { SecretCircuitOpenError } from '../src/errors/secret-circuit-open.error';
+import { SecretNotFoundError } from '../src/errors/secret-not-found.error';
+
+function grpcError(code: number): Error {
+  return Object.assign(new Error(`gRPC error ${code}`), { code });
+}
+
+describe('isTransientBackendError', () => {
+  it('should detect transient gRPC status codes', () => {
+    expect(isTransientBackendError(grpcError(14))).toBe(true);
+    expect(isTransientBackendError(grpcError(4))).toBe(true);
+    expect(isTransientBackendError(grpcError(8))).toBe(true);
+    expect(isTransientBackendError(grpcError(3))).toBe(false);
+  });
+
+  it('should detect network errors', () => {
+    const reset = Object.assign(new Error('socket hang up'), {
+      code: 'ECONNRESET',
+    });
+    const fetchFailed = new TypeError('fetch failed', {
+      cause: { code: 'ECONNREFUSED' },
+    });
+
+    expect(isTransientBackendError(reset)).toBe(true);
+    expect(isTransientBackendError(fetchFailed)).toBe(true);
+  });
+
+  it('should detect throttling and server errors', () => {
+    expect(
+      isTransientBackendError(Object.assign(new Error(), { status: 503 })),
+    ).toBe(true);
+    expect(
+      isTransientBackendError(
+        Object.assign(new Error(), { $metadata: { httpStatusCode: 429 } }),
+      ),
+    ).toBe(true);
+    expect(
+      isTransientBackendError(Object.assign(new Error(), { status: 400 })),
+    ).toBe(false);
+  });
+
+  it('should detect AWS throttling errors', () => {
+    const throttled = Object.assign(new Error('Rate exceeded'), {
+      name: 'ThrottlingException',
+      $metadata: { httpStatusCode: 400 },
+    });
+    const throttledV2 = Object.assign(new Error('Rate exceeded'), {
+      code: 'TooManyRequestsException',
+      statusCode: 400,
+    });
+    const invalid = Object.assign(new Error('Invalid parameter'), {
+      name: 'InvalidParameterException',
+      $metadata: { httpStatusCode: 400 },
+    });
+
+    expect(isTransientBackendError(throttled)).toBe(true);
+    expect(isTransientBackendError(throttledV2)).toBe(true);
+    expect(isTransientBackendError(invalid)).toBe(false);
+  });
+
+  it('should treat timeouts as transient and definitive answers as not', () => {
+    expect(
+      isTransientBackendError(new SecretBackendTimeoutError('db', 'gcp', 100)),
+    ).toBe(true);
+    expect(isTransientBackendError(new SecretNotFoundError('db', 'gcp'))).toBe(
+      false,
+    );
+    expect(isTransientBackendError(new Error('unexpected'))).toBe(false);
+  });
+});
+
+describe('BackendResilience', () => {
+  let operation: jest.Mock<Promise<string>, []>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    operation = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('should retry transient errors with backoff', async () => {
+      const policy = new BackendResilience('gcp', { retryBaseDelay: 100 });
+      operation
+        .mockRejectedValueOnce(grpcError(14))
+        .mockRejectedValueOnce(grpcError(14))
+        .mockResolvedValue('value');
+
+      const result = policy.execute('db', operation);
+      await jest.advanceTimersByTimeAsync(300);
+
+      await expect(result).resolves.toBe('value');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const policy = new BackendResilience('gcp', { retries: 1 });
+      operation.mockRejectedValue(grpcError(14));
+
+      const result = policy.execute('db', operation);
+      const assertion = expect(result).rejects.toMatchObject({ code: 14 });
+      await jest.advanceTimersByTimeAsync(2000);
+
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry definitive errors', async () => {
+      const policy = new BackendResilience('gcp');
+      operation.mockRejectedValue(new SecretNotFoundError('db', 'gcp'));
+
+      await expect(policy.execute('db', operation)).rejects.toThrow(
+        SecretNotFoundError,
+      );
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap the backoff delay', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      const policy = new BackendResilience('gcp', {
+        retries: 5,
+        retryBaseDelay: 100,
+        retryMaxDelay: 150,
+      });
+      operation.mockRejectedValueOnce(grpcError(14));
+      operation.mockRejectedValueOnce(grpcError(14));
+      operation.mockResolvedValue('value');
+
+      const result = policy.execute('db', operation);
+      await jest.advanceTimersByTimeAsync(100);
+      expect(operation).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(150);
+
+      await expect(result).resolves.toBe('value');
+    });
+
+    it('should record retries as span events', async () => {
+      const span = { addEvent: jest.fn() } as unknown as Span;
+      jest.spyOn(trace, 'getActiveSpan').mockReturnValue(span);
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const policy = new BackendResilience('gcp', { retryBaseDelay: 100 });
+      operation.mockRejectedValueOnce(grpcError(14)).mockResolvedValue('value');
+
+      const result = policy.execute('db', operation);
+      await jest.advanceTimersByTimeAsync(100);
+      await result;
+
+      expect(span.addEvent).toHaveBeenCalledWith('secret.retry', {
+        'secret.retry.attempt': 1,
+        'secret.retry.delay_ms': 50,
+        'secret.retry.error': 'Error',
+      });
+    });
+  });
+
+  describe('timeout', () => {
+    it('should fail attempts that exceed the timeout', async () => {
+      const policy = new BackendResilience('gcp', { timeout: 500, retries: 0 });
+      operation.mockReturnValue(new Promise(() => undefined));
+
+      const result = policy.execute('db', operation);
+      const assertion = expect(result).rejects.toThrow(
+        SecretBackendTimeoutError,
+      );
+      await jest.advanceTimersByTimeAsync(500);
+
+      await assertion;
+    });
+
+    it('should retry timed out attempts', async () => {
+      const policy = new BackendResilience('gcp', {
+        timeout: 500,
+        retryBaseDelay: 0,
+      });
+      operation
+        .mockReturnValueOnce(new Promise(() => undefined))
+        .mockResolvedValue('value');
+
+      const result = policy.execute('db', operation);
+      await jest.advanceTimersByTimeAsync(501);
+
+      await expect(result).resolves.toBe('value');
+    });
+  });
+
+  describe('circuit breaker', () => {
+    let policy: BackendResilience;
+
+    beforeEach(async () => {
+      policy = new BackendResilience('gcp', {
+        retries: 0,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 1000 },
+      });
+      operation.mockRejectedValue(grpcError(14));
+
+      await expect(policy.execute('db', operation)).rejects.toThrow();
+      await expect(policy.execute('db', operation)).rejects.toThrow();
+    });
+
+    it('should open after repeated transient errors', async () => {
+      expect(policy.getState()).toBe('open');
+
+      await expect(policy.execute('db', operation)).rejects.toThrow(
+        SecretCircuitOpenError,
+      );
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should close after a successful trial call', async () => {
+      jest.advanceTimersByTime(1000);
+      operation.mockResolvedValue('value');
+
+      await expect(policy.execute('db', operation)).resolves.toBe('value');
+      expect(policy.getState()).toBe('closed');
+    });
+
+    it('should re-open after a failed trial call', async () => {
+      jest.advanceTimersByTime(1000);
+
+      await expect(policy.execute('db', operation)).rejects.toMatchObject({
+        code: 14,
+      });
+      expect(policy.getState()).toBe('open');
+    });
+
+    it('should let a single trial call through while half-open', async () => {
+      jest.advanceTimersByTime(1000);
+      operation.mockReturnValue(new Promise(() => undefined));
+
+      void policy.execute('db', operation);
+
+      expect(policy.getState()).toBe('half-open');
+      await expect(policy.execute('db', operation)).rejects.toThrow(
+        SecretCircuitOpenError,
+      );
+    });
+
+    it('should record state changes as span events', async () => {
+      const span = { addEvent: jest.fn() } as unknown as Span;
+      jest.spyOn(trace, 'getActiveSpan').mockReturnValue(span);
+      jest.advanceTimersByTime(1000);
+      operation.mockResolvedValue('value');
+
+      await policy.execute('db', operation);
+
+      expect(span.addEvent).toHaveBeenCalledWith(
+        'secret.circuit_state_change',
+        {
+          'secret.circuit.previous_state': 'open',
+          'secret.circuit.state': 'half-open',
+        },
+      );
+      expect(span.addEvent).toHaveBeenCalledWith(
+        'secret.circuit_state_change',
+        {
+          'secret.circuit.previous_state': 'half-open',
+          'secret.circuit.state': 'closed',
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  AwsSecretsManagerBackend,
+  AwsSecretsManagerClient,
+} from '../../src/backends/aws-secrets-manager.backend';
+import { SecretAccessDeniedError } from '../../src/errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../../src/errors/secret-not-found.error';
+
+function awsError(name: string, message = name): Error {
+  return Object.assign(new Error(message), { name });
+}
+
+describe('AwsSecretsManagerBackend', () => {
+  let getSecretValue: jest.MockedFunction<
+    AwsSecretsManagerClient['getSecretValue']
+  >;
+  let backend: AwsSecretsManagerBackend;
+
+  beforeEach(() => {
+    getSecretValue = jest.fn();
+    backend = new AwsSecretsManagerBackend({ client: { getSecretValue } });
+  });
+
+  describe('name', () => {
+    it('should return "aws"', () => {
+      expect(backend.name).toBe('aws');
+    });
+  });
+
+  describe('get', () => {
+    it('should return SecretString values', async () => {
+      getSecretValue.mockResolvedValue({ SecretString: 'secret-value' });
+
+      expect(await backend.get('api-key')).toBe('secret-value');
+    });
+
+    it('should decode SecretBinary values', async () => {
+      getSecretValue.mockResolvedValue({
+        SecretBinary: new Uint8Array(Buffer.from('binary-value')),
+      });
+
+      expect(await backend.get('api-key')).toBe('binary-value');
+    });
+
+    it('should map latest to the AWSCURRENT staging label', async () => {
+      getSecretValue.mockResolvedValue({ SecretString: 'value' });
+
+      await backend.get('api-key');
+
+      expect(getSecretValue).toHaveBeenCalledWith({
+        SecretId: 'api-key',
+        VersionStage: 'AWSCURRENT',
+      });
+    });
+
+    it('should pass staging labels as VersionStage', async () => {
+      getSecretValue.mockResolvedValue({ SecretString: 'value' });
+
+      await backend.get('api-key', 'AWSPREVIOUS');
+
+      expect(getSecretValue).toHaveBeenCalledWith({
+        SecretId: 'api-key',
+        VersionStage: 'AWSPREVIOUS',
+      });
+    });
+
+    it('should pass other versions as VersionId', async () => {
+      getSecretValue.mockResolvedValue({ SecretString: 'value' });
+
+      await backend.get('api-key', 'a1b2c3d4-version');
+
+      expect(getSecretValue).toHaveBeenCalledWith({
+        SecretId: 'api-key',
+        VersionId: 'a1b2c3d4-version',
+      });
+    });
+
+    it('should map ResourceNotFoundException to SecretNotFoundError', async () => {
+      getSecretValue.mockRejectedValue(awsError('ResourceNotFoundException'));
+
+      await expect(backend.get('missing')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should map AccessDeniedException to SecretAccessDeniedError', async () => {
+      getSecretValue.mockRejectedValue(
+        awsError('AccessDeniedException', 'not authorized'),
+      );
+
+      await expect(backend.get('locked')).rejects.toThrow(
+        SecretAccessDeniedError,
+      );
+    });
+
+    it('should re-throw unexpected errors', async () => {
+      const error = awsError('ThrottlingException');
+      getSecretValue.mockRejectedValue(error);
+
+      await expect(backend.get('api-key')).rejects.toBe(error);
+    });
+
+    it('should throw SecretNotFoundError when the response has no value', async () => {
+      getSecretValue.mockResolvedValue({});
+
+      await expect(backend.get('empty')).rejects.toThrow(SecretNotFoundError);
+    });
+  });
+
+  describe('getWithMetadata', () => {
+    it('should report the version ID and creation date', async () => {
+      const createdDate = new Date('2024-05-01T12:00:00Z');
+      getSecretValue.mockResolvedValue({
+        SecretString: 'value',
+        VersionId: 'a1b2c3',
+        CreatedDate: createdDate,
+      });
+
+      expect(await backend.getWithMetadata('api-key')).toEqual({
+        value: 'value',
+        version: 'a1b2c3',
+        createTime: createdDate,
+      });
+    });
+  });
+
+  describe('getLatest', () => {
+    it('should retrieve the latest version', async () => {
+      getSecretValue.mockResolvedValue({ SecretString: 'latest-value' });
+
+      expect(await backend.getLatest('api-key')).toBe('latest-value');
+    });
+  });
+});
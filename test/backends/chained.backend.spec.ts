@@ -0,0 +1,138 @@
+import { Span, trace } from '@opentelemetry/api';
+
+import { ChainedSecretBackend } from '../../src/backends/chained.backend';
+import { InMemorySecretBackend } from '../../src/backends/in-memory.backend';
+import { SecretAccessDeniedError } from '../../src/errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../../src/errors/secret-not-found.error';
+import { SecretBackend } from '../../src/interfaces/secret-backend.interface';
+
+function namedBackend(
+  name: string,
+  secrets: Record<string, string>,
+): InMemorySecretBackend {
+  const backend = new InMemorySecretBackend(secrets);
+  Object.defineProperty(backend, 'name', { value: name });
+  return backend;
+}
+
+describe('ChainedSecretBackend', () => {
+  let override: InMemorySecretBackend;
+  let remote: InMemorySecretBackend;
+  let backend: ChainedSecretBackend;
+
+  beforeEach(() => {
+    override = namedBackend('override', { 'api-key': 'local-value' });
+    remote = namedBackend('remote', {
+      'api-key': 'remote-value',
+      'db-password': 'remote-password',
+    });
+    backend = new ChainedSecretBackend([override, remote]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('name', () => {
+    it('should default to "chain"', () => {
+      expect(backend.name).toBe('chain');
+    });
+
+    it('should accept a custom name', () => {
+      expect(new ChainedSecretBackend([remote], 'layered').name).toBe(
+        'layered',
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('should prefer earlier backends', async () => {
+      expect(await backend.get('api-key')).toBe('local-value');
+    });
+
+    it('should fall through on SecretNotFoundError', async () => {
+      expect(await backend.get('db-password')).toBe('remote-password');
+    });
+
+    it('should throw SecretNotFoundError when no backend has the secret', async () => {
+      await expect(backend.get('missing')).rejects.toMatchObject({
+        backend: 'chain',
+        secretName: 'missing',
+      });
+      await expect(backend.get('missing')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should surface other errors immediately', async () => {
+      const denied: SecretBackend = {
+        name: 'denied',
+        get: jest
+          .fn()
+          .mockRejectedValue(new SecretAccessDeniedError('api-key', 'denied')),
+        getLatest: jest.fn(),
+      };
+      const chained = new ChainedSecretBackend([denied, remote]);
+      const remoteGet = jest.spyOn(remote, 'get');
+
+      await expect(chained.get('api-key')).rejects.toThrow(
+        SecretAccessDeniedError,
+      );
+      expect(remoteGet).not.toHaveBeenCalled();
+    });
+
+    it('should record the serving backend on the active span', async () => {
+      const span = { setAttribute: jest.fn() } as unknown as Span;
+      jest.spyOn(trace, 'getActiveSpan').mockReturnValue(span);
+
+      await backend.get('db-password');
+
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        'secret.served_by',
+        'remote',
+      );
+    });
+  });
+
+  describe('getWithMetadata', () => {
+    it('should report the metadata of the backend that served the value', async () => {
+      override.set('api-key', 'versioned-value', '3');
+
+      expect(await backend.getWithMetadata('api-key', '3')).toEqual({
+        value: 'versioned-value',
+        version: '3',
+        backend: 'override',
+      });
+    });
+
+    it('should fall back to get() for backends without metadata', async () => {
+      const plain: SecretBackend = {
+        name: 'plain',
+        get: jest.fn().mockResolvedValue('plain-value'),
+        getLatest: jest.fn(),
+      };
+      backend = new ChainedSecretBackend([plain]);
+
+      expect(await backend.getWithMetadata('api-key')).toEqual({
+        value: 'plain-value',
+        backend: 'plain',
+      });
+    });
+  });
+
+  describe('getLatest', () => {
+    it('should retrieve the latest version', async () => {
+      expect(await backend.getLatest('api-key')).toBe('local-value');
+    });
+  });
+
+  describe('getBackendNames', () => {
+    it('should return the chained backend names in order', () => {
+      expect(backend.getBackendNames()).toEqual(['override', 'remote']);
+    });
+  });
+
+  it('should require at least one backend', () => {
+    expect(() => new ChainedSecretBackend([])).toThrow(
+      'ChainedSecretBackend requires at least one backend',
+    );
+  });
+});
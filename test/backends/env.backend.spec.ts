@@ -0,0 +1,75 @@
+import { EnvSecretBackend } from '../../src/backends/env.backend';
+import { SecretNotFoundError } from '../../src/errors/secret-not-found.error';
+
+describe('EnvSecretBackend', () => {
+  let backend: EnvSecretBackend;
+
+  beforeEach(() => {
+    backend = new EnvSecretBackend({
+      prefix: 'APP_',
+      env: {
+        APP_DB_PASSWORD: 'db-secret',
+        APP_API_KEY_V2: 'api-secret',
+        DB_PASSWORD: 'unprefixed',
+      },
+    });
+  });
+
+  describe('name', () => {
+    it('should return "env"', () => {
+      expect(backend.name).toBe('env');
+    });
+  });
+
+  describe('getVariableName', () => {
+    it('should apply the prefix and default name mapping', () => {
+      expect(backend.getVariableName('db-password')).toBe('APP_DB_PASSWORD');
+      expect(backend.getVariableName('api.key/v2')).toBe('APP_API_KEY_V2');
+    });
+
+    it('should use a custom name mapper', () => {
+      const custom = new EnvSecretBackend({
+        prefix: 'X_',
+        nameMapper: (name) => name.replace(/-/g, ''),
+      });
+
+      expect(custom.getVariableName('db-password')).toBe('X_dbpassword');
+    });
+  });
+
+  describe('get', () => {
+    it('should read the mapped environment variable', async () => {
+      expect(await backend.get('db-password')).toBe('db-secret');
+      expect(await backend.get('api-key-v2', 'latest')).toBe('api-secret');
+    });
+
+    it('should throw SecretNotFoundError for missing variables', async () => {
+      await expect(backend.get('missing')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should throw SecretNotFoundError for versions other than latest', async () => {
+      await expect(backend.get('db-password', '2')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+    });
+
+    it('should read from process.env by default', async () => {
+      process.env.ENV_BACKEND_SPEC_SECRET = 'from-process';
+
+      try {
+        const defaultBackend = new EnvSecretBackend();
+        expect(await defaultBackend.get('env-backend-spec-secret')).toBe(
+          'from-process',
+        );
+      } finally {
+        delete process.env.ENV_BACKEND_SPEC_SECRET;
+      }
+    });
+  });
+
+  describe('getLatest', () => {
+    it('should retrieve the latest version', async () => {
+      expect(await backend.getLatest('db-password')).toBe('db-secret');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileSecretBackend } from '../../src/backends/file.backend';
+import { SecretAccessDeniedError } from '../../src/errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../../src/errors/secret-not-found.error';
+
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return { ...actual, readFile: jest.fn(actual.readFile) };
+});
+
+describe('FileSecretBackend', () => {
+  let directory: string;
+  let backend: FileSecretBackend;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'file-backend-'));
+    backend = new FileSecretBackend({ directory });
+  });
+
+  afterEach(() => {
+    backend.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('name', () => {
+    it('should return "file"', () => {
+      expect(backend.name).toBe('file');
+    });
+  });
+
+  describe('get', () => {
+    it('should read a secret file', async () => {
+      writeFileSync(join(directory, 'api-key'), 'secret-value');
+      expect(await backend.get('api-key')).toBe('secret-value');
+    });
+
+    it('should trim trailing newlines by default', async () => {
+      writeFileSync(join(directory, 'api-key'), 'secret-value\r\n\n');
+      expect(await backend.get('api-key')).toBe('secret-value');
+    });
+
+    it('should keep trailing newlines when trimming is disabled', async () => {
+      const rawBackend = new FileSecretBackend({
+        directory,
+        trimTrailingNewline: false,
+      });
+      writeFileSync(join(directory, 'api-key'), 'secret-value\n');
+
+      expect(await rawBackend.get('api-key')).toBe('secret-value\n');
+    });
+
+    it('should read versioned secrets from a directory', async () => {
+      mkdirSync(join(directory, 'db-password'));
+      writeFileSync(join(directory, 'db-password', '1'), 'v1-value');
+      writeFileSync(join(directory, 'db-password', 'latest'), 'latest-value');
+
+      expect(await backend.get('db-password', '1')).toBe('v1-value');
+      expect(await backend.get('db-password')).toBe('latest-value');
+    });
+
+    it('should throw SecretNotFoundError for missing files', async () => {
+      await expect(backend.get('missing')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should throw SecretNotFoundError for missing versions', async () => {
+      writeFileSync(join(directory, 'api-key'), 'secret-value');
+
+      await expect(backend.get('api-key', '2')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+    });
+
+    it('should not read outside of the secrets directory', async () => {
+      await expect(backend.get('..', 'etc')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+      await expect(backend.get('a/../../b')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+    });
+
+    it('should throw SecretAccessDeniedError for unreadable files', async () => {
+      const error = Object.assign(new Error('permission denied'), {
+        code: 'EACCES',
+      });
+      jest.mocked(readFile).mockRejectedValueOnce(error);
+
+      await expect(backend.get('locked')).rejects.toThrow(
+        SecretAccessDeniedError,
+      );
+    });
+  });
+
+  describe('getLatest', () => {
+    it('should retrieve the latest version', async () => {
+      writeFileSync(join(directory, 'api-key'), 'latest-value');
+      expect(await backend.getLatest('api-key')).toBe('latest-value');
+    });
+  });
+
+  describe('watch', () => {
+    it('should notify listeners with the changed secret name', async () => {
+      mkdirSync(join(directory, 'db-password'));
+
+      const changed = new Promise<string | undefined>((resolve) => {
+        backend.watch(resolve);
+      });
+
+      writeFileSync(join(directory, 'db-password', '2'), 'v2-value');
+
+      expect(await changed).toBe('db-password');
+    });
+
+    it('should skip watching a missing directory', async () => {
+      const missing = new FileSecretBackend({
+        directory: join(directory, 'missing'),
+      });
+
+      expect(() => missing.watch(jest.fn())).not.toThrow();
+      await expect(missing.get('api-key')).rejects.toThrow(SecretNotFoundError);
+      missing.close();
+    });
+  });
+});
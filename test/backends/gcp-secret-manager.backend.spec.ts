@@ -0,0 +1,251 @@
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+
+import { GcpSecretManagerBackend } from '../../src/backends/gcp-secret-manager.backend';
+import { SecretAccessDeniedError } from '../../src/errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../../src/errors/secret-not-found.error';
+
+jest.mock('@google-cloud/secret-manager');
+
+const VERSION_NAME = 'projects/my-project/secrets/api-key/versions/7';
+
+function grpcError(code: number, message = 'error'): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('GcpSecretManagerBackend', () => {
+  let accessSecretVersion: jest.Mock;
+  let getSecretVersion: jest.Mock;
+  let createSecret: jest.Mock;
+  let addSecretVersion: jest.Mock;
+  let disableSecretVersion: jest.Mock;
+  let destroySecretVersion: jest.Mock;
+  let listSecrets: jest.Mock;
+  let listSecretVersions: jest.Mock;
+  let backend: GcpSecretManagerBackend;
+
+  beforeEach(() => {
+    accessSecretVersion = jest.fn().mockResolvedValue([
+      {
+        name: VERSION_NAME,
+        payload: { data: Buffer.from('secret-value'), dataCrc32c: 1234 },
+      },
+    ]);
+    getSecretVersion = jest.fn().mockResolvedValue([
+      {
+        name: VERSION_NAME,
+        createTime: { seconds: 1714564800, nanos: 500000000 },
+        etag: '"abc"',
+      },
+    ]);
+    createSecret = jest.fn().mockResolvedValue([{}]);
+    addSecretVersion = jest.fn().mockResolvedValue([{ name: VERSION_NAME }]);
+    disableSecretVersion = jest.fn().mockResolvedValue([{}]);
+    destroySecretVersion = jest.fn().mockResolvedValue([{}]);
+    listSecrets = jest.fn();
+    listSecretVersions = jest.fn();
+    jest.mocked(SecretManagerServiceClient).mockImplementation(
+      () =>
+        ({
+          accessSecretVersion,
+          getSecretVersion,
+          createSecret,
+          addSecretVersion,
+          disableSecretVersion,
+          destroySecretVersion,
+          listSecrets,
+          listSecretVersions,
+        }) as unknown as SecretManagerServiceClient,
+    );
+
+    backend = new GcpSecretManagerBackend('my-project');
+  });
+
+  describe('get', () => {
+    it('should access the latest version by default', async () => {
+      expect(await backend.get('api-key')).toBe('secret-value');
+      expect(accessSecretVersion).toHaveBeenCalledWith({
+        name: 'projects/my-project/secrets/api-key/versions/latest',
+      });
+    });
+
+    it('should use full resource names as-is', async () => {
+      await backend.get('projects/other/secrets/api-key', '3');
+
+      expect(accessSecretVersion).toHaveBeenCalledWith({
+        name: 'projects/other/secrets/api-key/versions/3',
+      });
+    });
+
+    it('should map NOT_FOUND to SecretNotFoundError', async () => {
+      accessSecretVersion.mockRejectedValue(grpcError(5));
+
+      await expect(backend.get('api-key')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should map PERMISSION_DENIED to SecretAccessDeniedError', async () => {
+      accessSecretVersion.mockRejectedValue(grpcError(7));
+
+      await expect(backend.get('api-key')).rejects.toThrow(
+        SecretAccessDeniedError,
+      );
+    });
+  });
+
+  describe('write operations', () => {
+    it('should create secrets with automatic replication', async () => {
+      await backend.createSecret('api-key', { labels: { team: 'core' } });
+
+      expect(createSecret).toHaveBeenCalledWith({
+        parent: 'projects/my-project',
+        secretId: 'api-key',
+        secret: { replication: { automatic: {} }, labels: { team: 'core' } },
+      });
+    });
+
+    it('should create secrets from full resource names', async () => {
+      await backend.createSecret('projects/other/secrets/api-key');
+
+      expect(createSecret).toHaveBeenCalledWith(
+        expect.objectContaining({
+          parent: 'projects/other',
+          secretId: 'api-key',
+        }),
+      );
+    });
+
+    it('should add versions and return their ID', async () => {
+      expect(await backend.addVersion('api-key', 'rotated-value')).toBe('7');
+      expect(addSecretVersion).toHaveBeenCalledWith({
+        parent: 'projects/my-project/secrets/api-key',
+        payload: { data: Buffer.from('rotated-value') },
+      });
+    });
+
+    it('should disable and destroy versions', async () => {
+      await backend.disableVersion('api-key', '3');
+      await backend.destroyVersion('api-key', '3');
+
+      const name = 'projects/my-project/secrets/api-key/versions/3';
+      expect(disableSecretVersion).toHaveBeenCalledWith({ name });
+      expect(destroySecretVersion).toHaveBeenCalledWith({ name });
+    });
+
+    it('should map NOT_FOUND to SecretNotFoundError', async () => {
+      addSecretVersion.mockRejectedValue(grpcError(5));
+
+      await expect(backend.addVersion('missing', 'value')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+    });
+  });
+
+  describe('listSecrets', () => {
+    it('should list one page of secrets', async () => {
+      listSecrets.mockResolvedValue([
+        [
+          {
+            name: 'projects/my-project/secrets/api-key',
+            createTime: { seconds: 1714564800 },
+            labels: { team: 'core' },
+          },
+        ],
+        { pageToken: 'next-page' },
+        {},
+      ]);
+
+      const page = await backend.listSecrets({
+        filter: 'labels.team=core',
+        pageToken: 'page',
+      });
+
+      expect(page).toEqual({
+        secrets: [
+          {
+            name: 'api-key',
+            createTime: new Date('2024-05-01T12:00:00Z'),
+            labels: { team: 'core' },
+          },
+        ],
+        nextPageToken: 'next-page',
+      });
+      expect(listSecrets).toHaveBeenCalledWith(
+        {
+          parent: 'projects/my-project',
+          filter: 'labels.team=core',
+          pageToken: 'page',
+          pageSize: undefined,
+        },
+        { autoPaginate: false },
+      );
+    });
+
+    it('should report the last page without a token', async () => {
+      listSecrets.mockResolvedValue([[], null, {}]);
+
+      expect(await backend.listSecrets()).toEqual({
+        secrets: [],
+        nextPageToken: undefined,
+      });
+    });
+  });
+
+  describe('listVersions', () => {
+    it('should list versions with their state and create time', async () => {
+      listSecretVersions.mockResolvedValue([
+        [
+          {
+            name: VERSION_NAME,
+            state: 'ENABLED',
+            createTime: { seconds: 1714564800 },
+          },
+          {
+            name: 'projects/my-project/secrets/api-key/versions/6',
+            state: 'DESTROYED',
+          },
+        ],
+      ]);
+
+      expect(await backend.listVersions('api-key')).toEqual([
+        {
+          version: '7',
+          state: 'enabled',
+          createTime: new Date('2024-05-01T12:00:00Z'),
+        },
+        { version: '6', state: 'destroyed', createTime: undefined },
+      ]);
+      expect(listSecretVersions).toHaveBeenCalledWith({
+        parent: 'projects/my-project/secrets/api-key',
+      });
+    });
+  });
+
+  describe('getWithMetadata', () => {
+    it('should report the version that latest resolved to', async () => {
+      expect(await backend.getWithMetadata('api-key')).toEqual({
+        value: 'secret-value',
+        version: '7',
+        checksum: '1234',
+      });
+      expect(getSecretVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('describeVersion', () => {
+    it('should read the create time and etag of a version', async () => {
+      expect(await backend.describeVersion('api-key', '7')).toEqual({
+        version: '7',
+        createTime: new Date('2024-05-01T12:00:00.500Z'),
+        etag: '"abc"',
+      });
+      expect(getSecretVersion).toHaveBeenCalledWith({ name: VERSION_NAME });
+    });
+
+    it('should map PERMISSION_DENIED to SecretAccessDeniedError', async () => {
+      getSecretVersion.mockRejectedValue(grpcError(7));
+
+      await expect(backend.describeVersion('api-key', '7')).rejects.toThrow(
+        SecretAccessDeniedError,
+      );
+    });
+  });
+});
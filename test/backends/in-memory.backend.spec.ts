@@ -70,6 +70,17 @@ describe('InMemorySecretBackend', () => {
     });
   });
 
+  describe('getWithMetadata', () => {
+    it('should report the requested version', async () => {
+      backend.set('api-key', 'v2', '2');
+
+      expect(await backend.getWithMetadata('api-key', '2')).toEqual({
+        value: 'v2',
+        version: '2',
+      });
+    });
+  });
+
   describe('getLatest', () => {
     it('should retrieve the latest version', async () => {
       backend.set('api-key', 'latest-value');
@@ -78,6 +89,143 @@ describe('InMemorySecretBackend', () => {
     });
   });
 
+  describe('write operations', () => {
+    beforeEach(async () => {
+      await backend.createSecret('api-key');
+    });
+
+    it('should reject creating an existing secret', async () => {
+      await expect(backend.createSecret('api-key')).rejects.toThrow(
+        "Secret 'api-key' already exists",
+      );
+    });
+
+    it('should number added versions and resolve latest to the newest', async () => {
+      expect(await backend.addVersion('api-key', 'v1')).toBe('1');
+      expect(await backend.addVersion('api-key', 'v2')).toBe('2');
+
+      expect(await backend.get('api-key')).toBe('v2');
+      expect(await backend.get('api-key', '1')).toBe('v1');
+      expect(await backend.getWithMetadata('api-key')).toEqual({
+        value: 'v2',
+        version: '2',
+      });
+    });
+
+    it('should reject adding versions to missing secrets', async () => {
+      await expect(backend.addVersion('missing', 'value')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+    });
+
+    it('should stop serving disabled versions', async () => {
+      await backend.addVersion('api-key', 'v1');
+      await backend.addVersion('api-key', 'v2');
+
+      await backend.disableVersion('api-key', '2');
+
+      await expect(backend.get('api-key', '2')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+      await expect(backend.get('api-key')).rejects.toThrow(SecretNotFoundError);
+      expect(await backend.get('api-key', '1')).toBe('v1');
+    });
+
+    it('should drop the values of destroyed versions', async () => {
+      await backend.addVersion('api-key', 'v1');
+
+      await backend.destroyVersion('api-key', '1');
+
+      expect(backend.has('api-key', '1')).toBe(false);
+      await expect(backend.get('api-key')).rejects.toThrow(SecretNotFoundError);
+      await expect(backend.destroyVersion('api-key', '1')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+      expect(await backend.addVersion('api-key', 'v2')).toBe('2');
+    });
+
+    it('should reject disabling missing versions', async () => {
+      await expect(backend.disableVersion('api-key', '9')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+    });
+  });
+
+  describe('listSecrets', () => {
+    beforeEach(() => {
+      backend.set('db-password', 'password');
+      backend.set('api-key', 'key');
+      backend.set('api-secret', 'secret');
+    });
+
+    it('should list secret names in alphabetical order', async () => {
+      expect(await backend.listSecrets()).toEqual({
+        secrets: [
+          { name: 'api-key' },
+          { name: 'api-secret' },
+          { name: 'db-password' },
+        ],
+        nextPageToken: undefined,
+      });
+    });
+
+    it('should filter names by substring', async () => {
+      const page = await backend.listSecrets({ filter: 'api-' });
+
+      expect(page.secrets.map((secret) => secret.name)).toEqual([
+        'api-key',
+        'api-secret',
+      ]);
+    });
+
+    it('should page through the secrets', async () => {
+      const first = await backend.listSecrets({ pageSize: 2 });
+      const second = await backend.listSecrets({
+        pageSize: 2,
+        pageToken: first.nextPageToken,
+      });
+
+      expect(first.secrets).toHaveLength(2);
+      expect(second).toEqual({
+        secrets: [{ name: 'db-password' }],
+        nextPageToken: undefined,
+      });
+    });
+  });
+
+  describe('listVersions', () => {
+    it('should list versions newest first with their state', async () => {
+      await backend.createSecret('api-key');
+      await backend.addVersion('api-key', 'v1');
+      await backend.addVersion('api-key', 'v2');
+      await backend.addVersion('api-key', 'v3');
+      await backend.disableVersion('api-key', '2');
+      await backend.destroyVersion('api-key', '1');
+
+      const versions = await backend.listVersions('api-key');
+
+      expect(versions).toEqual([
+        { version: '3', state: 'enabled', createTime: expect.any(Date) },
+        { version: '2', state: 'disabled', createTime: expect.any(Date) },
+        { version: '1', state: 'destroyed', createTime: expect.any(Date) },
+      ]);
+    });
+
+    it('should list versions set directly', async () => {
+      backend.set('api-key', 'value');
+
+      expect(await backend.listVersions('api-key')).toEqual([
+        { version: 'latest', state: 'enabled', createTime: expect.any(Date) },
+      ]);
+    });
+
+    it('should throw SecretNotFoundError for missing secrets', async () => {
+      await expect(backend.listVersions('missing')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+    });
+  });
+
   describe('has', () => {
     it('should return true for existing secret', () => {
       backend.set('api-key', 'value');
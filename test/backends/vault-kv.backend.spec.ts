@@ -0,0 +1,289 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+
+import {
+  VaultKvBackend,
+  VaultKvBackendOptions,
+} from '../../src/backends/vault-kv.backend';
+import { SecretAccessDeniedError } from '../../src/errors/secret-access-denied.error';
+import { SecretNotFoundError } from '../../src/errors/secret-not-found.error';
+
+interface StubRequest {
+  method: string;
+  url: string;
+  token?: string;
+  body?: unknown;
+}
+
+type StubHandler = (request: StubRequest) => { status: number; body?: unknown };
+
+describe('VaultKvBackend', () => {
+  let server: Server;
+  let address: string;
+  let requests: StubRequest[];
+  let handler: StubHandler;
+  let backend: VaultKvBackend;
+
+  function createBackend(
+    options: Partial<VaultKvBackendOptions> = {},
+  ): VaultKvBackend {
+    backend = new VaultKvBackend({
+      address,
+      auth: { type: 'token', token: 'test-token' },
+      ...options,
+    });
+    return backend;
+  }
+
+  function kvResponse(data: Record<string, unknown>) {
+    return { status: 200, body: { data: { data, metadata: { version: 1 } } } };
+  }
+
+  beforeEach(async () => {
+    requests = [];
+    handler = () => ({ status: 404, body: { errors: [] } });
+
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const request: StubRequest = {
+          method: req.method ?? 'GET',
+          url: req.url ?? '',
+          token: req.headers['x-vault-token'] as string | undefined,
+          body: raw ? JSON.parse(raw) : undefined,
+        };
+        requests.push(request);
+
+        const { status, body } = handler(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(body === undefined ? '' : JSON.stringify(body));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    createBackend();
+  });
+
+  afterEach(async () => {
+    backend.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('name', () => {
+    it('should return "vault"', () => {
+      expect(backend.name).toBe('vault');
+    });
+  });
+
+  describe('get', () => {
+    it('should read the latest version with the configured token', async () => {
+      handler = () => kvResponse({ value: 'secret-value' });
+
+      expect(await backend.get('api-key')).toBe('secret-value');
+      expect(requests[0]).toMatchObject({
+        method: 'GET',
+        url: '/v1/secret/data/api-key',
+        token: 'test-token',
+      });
+    });
+
+    it('should request numeric versions', async () => {
+      handler = () => kvResponse({ value: 'v3-value' });
+
+      expect(await backend.get('api-key', '3')).toBe('v3-value');
+      expect(requests[0]!.url).toBe('/v1/secret/data/api-key?version=3');
+    });
+
+    it('should use a custom mount path', async () => {
+      createBackend({ mountPath: '/kv/' });
+      handler = () => kvResponse({ value: 'value' });
+
+      await backend.get('team/api-key');
+
+      expect(requests[0]!.url).toBe('/v1/kv/data/team/api-key');
+    });
+
+    it('should select the configured field', async () => {
+      createBackend({ field: 'password' });
+      handler = () => kvResponse({ user: 'admin', password: 'hunter2' });
+
+      expect(await backend.get('db')).toBe('hunter2');
+    });
+
+    it('should return multi-field data as JSON when no field is configured', async () => {
+      handler = () => kvResponse({ user: 'admin', port: 5432 });
+
+      expect(JSON.parse(await backend.get('db'))).toEqual({
+        user: 'admin',
+        port: 5432,
+      });
+    });
+
+    it('should throw SecretNotFoundError for a missing field', async () => {
+      createBackend({ field: 'password' });
+      handler = () => kvResponse({ user: 'admin' });
+
+      await expect(backend.get('db')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should throw SecretNotFoundError for non-numeric versions', async () => {
+      await expect(backend.get('api-key', 'abc')).rejects.toThrow(
+        SecretNotFoundError,
+      );
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should map 404 to SecretNotFoundError', async () => {
+      await expect(backend.get('missing')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should map 403 to SecretAccessDeniedError', async () => {
+      handler = () => ({
+        status: 403,
+        body: { errors: ['permission denied'] },
+      });
+
+      await expect(backend.get('locked')).rejects.toThrow(
+        SecretAccessDeniedError,
+      );
+    });
+
+    it('should throw on unexpected statuses', async () => {
+      handler = () => ({ status: 503, body: { errors: ['sealed'] } });
+
+      await expect(backend.get('api-key')).rejects.toThrow(
+        'Vault returned status 503: sealed',
+      );
+    });
+  });
+
+  describe('getWithMetadata', () => {
+    it('should report the KV version and creation time', async () => {
+      handler = () => ({
+        status: 200,
+        body: {
+          data: {
+            data: { value: 'secret' },
+            metadata: { version: 7, created_time: '2024-05-01T12:00:00Z' },
+          },
+        },
+      });
+
+      expect(await backend.getWithMetadata('api-key')).toEqual({
+        value: 'secret',
+        version: '7',
+        createTime: new Date('2024-05-01T12:00:00Z'),
+      });
+    });
+  });
+
+  describe('AppRole auth', () => {
+    beforeEach(() => {
+      createBackend({
+        auth: { type: 'approle', roleId: 'role', secretId: 'secret' },
+      });
+    });
+
+    it('should log in once and reuse the token', async () => {
+      handler = (request) =>
+        request.url === '/v1/auth/approle/login'
+          ? {
+              status: 200,
+              body: {
+                auth: {
+                  client_token: 'approle-token',
+                  lease_duration: 3600,
+                  renewable: true,
+                },
+              },
+            }
+          : kvResponse({ value: 'secret-value' });
+
+      await Promise.all([backend.get('a'), backend.get('b')]);
+
+      const logins = requests.filter((r) => r.url === '/v1/auth/approle/login');
+      expect(logins).toHaveLength(1);
+      expect(logins[0]!.body).toEqual({ role_id: 'role', secret_id: 'secret' });
+      expect(requests.filter((r) => r.token === 'approle-token')).toHaveLength(
+        2,
+      );
+    });
+
+    it('should renew the token before its lease expires', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+
+      try {
+        handler = (request) => {
+          if (request.url === '/v1/auth/approle/login') {
+            return {
+              status: 200,
+              body: {
+                auth: {
+                  client_token: 'approle-token',
+                  lease_duration: 30,
+                  renewable: true,
+                },
+              },
+            };
+          }
+          if (request.url === '/v1/auth/token/renew-self') {
+            return {
+              status: 200,
+              body: {
+                auth: {
+                  client_token: 'approle-token',
+                  lease_duration: 30,
+                  renewable: true,
+                },
+              },
+            };
+          }
+          return kvResponse({ value: 'secret-value' });
+        };
+
+        await backend.get('api-key');
+        await jest.advanceTimersByTimeAsync(20_000);
+
+        // Let the renewal request reach the stub server
+        for (let i = 0; i < 100 && requests.length < 3; i++) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+
+        const renewals = requests.filter(
+          (r) => r.url === '/v1/auth/token/renew-self',
+        );
+        expect(renewals).toHaveLength(1);
+        expect(renewals[0]!.token).toBe('approle-token');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should log in again when the token is rejected', async () => {
+      let logins = 0;
+      handler = (request) => {
+        if (request.url === '/v1/auth/approle/login') {
+          logins++;
+          return {
+            status: 200,
+            body: {
+              auth: {
+                client_token: `token-${logins}`,
+                lease_duration: 0,
+                renewable: false,
+              },
+            },
+          };
+        }
+        return request.token === 'token-1'
+          ? { status: 403, body: { errors: ['permission denied'] } }
+          : kvResponse({ value: 'secret-value' });
+      };
+
+      expect(await backend.get('api-key')).toBe('secret-value');
+      expect(logins).toBe(2);
+    });
+  });
+});
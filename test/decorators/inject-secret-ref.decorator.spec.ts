@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+
+import { getSecretToken, secretRegistry } from '../../src/constants';
+import { InjectSecretRef } from '../../src/decorators/inject-secret-ref.decorator';
+import { SecretManagerModule } from '../../src/secret-manager.module';
+import { SecretManagerService } from '../../src/secret-manager.service';
+import { SecretRef } from '../../src/secret-ref';
+
+describe('@InjectSecretRef', () => {
+  beforeEach(() => {
+    secretRegistry.clear();
+  });
+
+  afterEach(() => {
+    secretRegistry.clear();
+  });
+
+  it('should register the secret for validation', () => {
+    InjectSecretRef('api-key');
+
+    expect(secretRegistry.getAll()).toEqual([
+      expect.objectContaining({
+        name: 'api-key',
+        token: getSecretToken('api-key'),
+      }),
+    ]);
+    expect(secretRegistry.getRefs()).toHaveLength(1);
+  });
+
+  it('should inject a handle that follows rotations', async () => {
+    @Injectable()
+    class ApiClient {
+      constructor(
+        @InjectSecretRef('api-key') readonly apiKey: SecretRef,
+        @InjectSecretRef('timeout', { transform: 'number' })
+        readonly timeout: SecretRef<number>,
+      ) {}
+    }
+
+    const module = await Test.createTestingModule({
+      imports: [
+        SecretManagerModule.forRoot({
+          defaultBackend: 'memory',
+          inMemorySecrets: { 'api-key': 'initial-key', timeout: '1000' },
+        }),
+      ],
+      providers: [ApiClient],
+    }).compile();
+    await module.init();
+
+    const client = module.get<ApiClient>(ApiClient);
+    const service = module.get<SecretManagerService>(SecretManagerService);
+
+    expect(client.apiKey).toBeInstanceOf(SecretRef);
+    expect(client.apiKey.value).toBe('initial-key');
+    expect(client.apiKey.version).toBe('latest');
+    expect(client.timeout.value).toBe(1000);
+
+    service.getInMemoryBackend().set('api-key', 'rotated-key');
+    service.getInMemoryBackend().set('timeout', '2000');
+    await service.refreshSecrets();
+    await new Promise(process.nextTick);
+
+    expect(client.apiKey.value).toBe('rotated-key');
+    expect(client.timeout.value).toBe(2000);
+
+    await module.close();
+  });
+});
@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+
+import { secretRegistry } from '../../src/constants';
+import { InjectSecrets } from '../../src/decorators/inject-secrets.decorator';
+import { Secret } from '../../src/decorators/secret.decorator';
+import { SecretManagerModule } from '../../src/secret-manager.module';
+
+describe('@InjectSecrets', () => {
+  beforeEach(() => {
+    secretRegistry.clear();
+  });
+
+  afterEach(() => {
+    secretRegistry.clear();
+  });
+
+  it('should register each @Secret field', () => {
+    class DbSecrets {
+      @Secret('db-password') password!: string;
+      @Secret('db-port', { transform: 'number' }) port!: number;
+    }
+
+    InjectSecrets(DbSecrets);
+
+    expect(secretRegistry.getAll().map((secret) => secret.name)).toEqual([
+      'db-password',
+      'db-port',
+    ]);
+    expect(secretRegistry.getClasses()).toHaveLength(1);
+  });
+
+  it('should include inherited @Secret fields', () => {
+    class BaseSecrets {
+      @Secret('api-key') apiKey!: string;
+    }
+    class ExtendedSecrets extends BaseSecrets {
+      @Secret('api-secret') apiSecret!: string;
+    }
+
+    const requirement = secretRegistry.registerClass(ExtendedSecrets);
+
+    expect(requirement.properties.map((p) => p.propertyKey)).toEqual([
+      'apiSecret',
+      'apiKey',
+    ]);
+  });
+
+  it('should reject classes without @Secret fields', () => {
+    class EmptySecrets {}
+
+    expect(() => InjectSecrets(EmptySecrets)).toThrow(
+      "Cannot inject secrets class 'EmptySecrets': it has no @Secret properties",
+    );
+  });
+
+  it('should inject a populated, frozen instance', async () => {
+    class DbSecrets {
+      @Secret('db-password') password!: string;
+      @Secret('db-port', { transform: 'number' }) port!: number;
+    }
+
+    @Injectable()
+    class DbService {
+      constructor(@InjectSecrets(DbSecrets) readonly secrets: DbSecrets) {}
+    }
+
+    const module = await Test.createTestingModule({
+      imports: [
+        SecretManagerModule.forRoot({
+          defaultBackend: 'memory',
+          inMemorySecrets: {
+            'db-password': 'hunter2',
+            'db-port': '5432',
+          },
+        }),
+      ],
+      providers: [DbService],
+    }).compile();
+
+    const { secrets } = module.get<DbService>(DbService);
+
+    expect(secrets).toBeInstanceOf(DbSecrets);
+    expect(secrets.password).toBe('hunter2');
+    expect(secrets.port).toBe(5432);
+    expect(Object.isFrozen(secrets)).toBe(true);
+
+    await module.close();
+  });
+});
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+
+import { secretRegistry } from '../../src/constants';
+import { OnSecretRotated } from '../../src/decorators/on-secret-rotated.decorator';
+import { SecretChangeEvent } from '../../src/interfaces/secret-change-event.interface';
+import { SecretManagerModule } from '../../src/secret-manager.module';
+import { SecretManagerService } from '../../src/secret-manager.service';
+
+describe('@OnSecretRotated', () => {
+  beforeEach(() => {
+    secretRegistry.clear();
+  });
+
+  afterEach(() => {
+    secretRegistry.clear();
+  });
+
+  it('should call decorated methods when the secret rotates', async () => {
+    @Injectable()
+    class DbPool {
+      readonly events: SecretChangeEvent[] = [];
+
+      @OnSecretRotated('db-password')
+      reconnect(event: SecretChangeEvent): void {
+        this.events.push(event);
+      }
+    }
+
+    const module = await Test.createTestingModule({
+      imports: [
+        SecretManagerModule.forTesting({ 'db-password': 'initial-password' }),
+      ],
+      providers: [DbPool],
+    }).compile();
+    await module.init();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+    const pool = module.get<DbPool>(DbPool);
+
+    await service.refreshSecrets();
+    service.getInMemoryBackend().set('db-password', 'rotated-password');
+    await service.refreshSecrets();
+    await new Promise(process.nextTick);
+
+    expect(pool.events).toEqual([
+      {
+        name: 'db-password',
+        backend: 'memory',
+        value: 'rotated-password',
+        version: 'latest',
+      },
+    ]);
+
+    await module.close();
+  });
+});
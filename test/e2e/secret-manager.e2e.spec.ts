@@ -1,7 +1,13 @@
-import { Injectable, Module } from '@nestjs/common';
-import { Test } from '@nestjs/testing';
+import { Injectable, Logger, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { randomBytes } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 import { secretRegistry } from '../../src/constants';
+import { InjectSecret } from '../../src/decorators/inject-secret.decorator';
+import { RedactedSecret } from '../../src/redacted-secret';
 import { SecretManagerModule } from '../../src/secret-manager.module';
 import { SecretManagerService } from '../../src/secret-manager.service';
 
@@ -196,6 +202,233 @@ describe('SecretManagerModule (e2e)', () => {
     });
   });
 
+  describe('@InjectSecret', () => {
+    it('should inject separate fields of a JSON secret', async () => {
+      @Injectable()
+      class DbService {
+        constructor(
+          @InjectSecret('db-credentials', { field: 'user' })
+          readonly user: string,
+          @InjectSecret('db-credentials', { field: 'password' })
+          readonly password: string,
+        ) {}
+      }
+
+      const module = await Test.createTestingModule({
+        imports: [
+          SecretManagerModule.forRoot({
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'db-credentials': '{"user":"app","password":"hunter2"}',
+            },
+          }),
+        ],
+        providers: [DbService],
+      }).compile();
+
+      const dbService = module.get<DbService>(DbService);
+
+      expect(dbService.user).toBe('app');
+      expect(dbService.password).toBe('hunter2');
+
+      await module.close();
+    });
+  });
+
+  describe('offline snapshot', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'secret-manager-e2e-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should inject snapshot values when the backend is unreachable', async () => {
+      @Injectable()
+      class ApiClient {
+        constructor(@InjectSecret('api-key') readonly apiKey: string) {}
+      }
+
+      const getSecretValue = jest
+        .fn()
+        .mockResolvedValue({ SecretString: 'snapshot-value' });
+      const options = {
+        defaultBackend: 'aws',
+        awsSecretsManagerClient: { getSecretValue },
+        resilience: { retries: 0 },
+        snapshot: {
+          path: join(directory, 'secrets.snapshot'),
+          key: randomBytes(32),
+          maxAge: 60000,
+        },
+      };
+      const boot = async (): Promise<TestingModule> => {
+        const module = await Test.createTestingModule({
+          imports: [SecretManagerModule.forRoot(options)],
+          providers: [ApiClient],
+        }).compile();
+        await module.init();
+        return module;
+      };
+
+      await (await boot()).close();
+
+      getSecretValue.mockRejectedValue(
+        Object.assign(new Error('Service Unavailable'), {
+          $metadata: { httpStatusCode: 503 },
+        }),
+      );
+      const module = await boot();
+
+      expect(module.get<ApiClient>(ApiClient).apiKey).toBe('snapshot-value');
+
+      await module.close();
+    });
+  });
+
+  describe('transforms', () => {
+    it('should inject transformed values', async () => {
+      @Injectable()
+      class ServerConfig {
+        constructor(
+          @InjectSecret('port', { transform: 'number' }) readonly port: number,
+          @InjectSecret('port') readonly rawPort: string,
+        ) {}
+      }
+
+      const module = await Test.createTestingModule({
+        imports: [
+          SecretManagerModule.forRoot({
+            defaultBackend: 'memory',
+            inMemorySecrets: { port: '8080' },
+          }),
+        ],
+        providers: [ServerConfig],
+      }).compile();
+
+      const config = module.get<ServerConfig>(ServerConfig);
+
+      expect(config.port).toBe(8080);
+      expect(config.rawPort).toBe('8080');
+
+      await module.close();
+    });
+  });
+
+  describe('redaction', () => {
+    it('should inject redacted secrets', async () => {
+      @Injectable()
+      class PaymentService {
+        constructor(
+          @InjectSecret('api-key', { redact: true })
+          readonly apiKey: RedactedSecret,
+          @InjectSecret('api-key') readonly rawApiKey: string,
+          @InjectSecret('config', {
+            field: 'port',
+            transform: 'number',
+            redact: true,
+          })
+          readonly port: RedactedSecret<number>,
+        ) {}
+      }
+
+      const module = await Test.createTestingModule({
+        imports: [
+          SecretManagerModule.forRoot({
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'api-key': 'sk-12345',
+              config: '{"port":8080}',
+            },
+          }),
+        ],
+        providers: [PaymentService],
+      }).compile();
+
+      const service = module.get<PaymentService>(PaymentService);
+
+      expect(service.apiKey).toBeInstanceOf(RedactedSecret);
+      expect(service.apiKey.reveal()).toBe('sk-12345');
+      expect(service.rawApiKey).toBe('sk-12345');
+      expect(service.port.reveal()).toBe(8080);
+      expect(
+        JSON.stringify({ apiKey: service.apiKey, port: service.port }),
+      ).toBe('{"apiKey":"[REDACTED:api-key]","port":"[REDACTED:config]"}');
+
+      await module.close();
+    });
+
+    it('should redact values with forTesting', async () => {
+      const module = await Test.createTestingModule({
+        imports: [SecretManagerModule.forTesting({ 'api-key': 'sk-12345' })],
+      }).compile();
+
+      const service = module.get<SecretManagerService>(SecretManagerService);
+      const apiKey = await service.get<RedactedSecret>(
+        'api-key',
+        undefined,
+        undefined,
+        { redact: true },
+      );
+
+      expect(String(apiKey)).toBe('[REDACTED:api-key]');
+      expect(apiKey.reveal()).toBe('sk-12345');
+
+      await module.close();
+    });
+  });
+
+  describe('log redaction', () => {
+    afterEach(() => {
+      Logger.overrideLogger(new Logger());
+    });
+
+    it('should mask injected secrets in application logs', async () => {
+      const target = { log: jest.fn(), error: jest.fn(), warn: jest.fn() };
+
+      @Injectable()
+      class DbService {
+        constructor(
+          @InjectSecret('db-credentials', { field: 'password' })
+          readonly password: string,
+        ) {}
+      }
+
+      const module = await Test.createTestingModule({
+        imports: [
+          SecretManagerModule.forRoot({
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'db-credentials': '{"user":"app","password":"hunter2"}',
+            },
+            cacheEnabled: false,
+            redactLogs: true,
+          }),
+        ],
+        providers: [DbService],
+      })
+        .setLogger(target)
+        .compile();
+      await module.init();
+
+      const dbService = module.get<DbService>(DbService);
+      new Logger('Db').warn({
+        msg: 'Login failed',
+        password: dbService.password,
+      });
+
+      expect(target.warn).toHaveBeenCalledWith(
+        { msg: 'Login failed', password: '[REDACTED]' },
+        'Db',
+      );
+
+      await module.close();
+    });
+  });
+
   describe('in-memory backend manipulation', () => {
     it('should allow adding secrets after module creation', async () => {
       const module = await Test.createTestingModule({
@@ -0,0 +1,45 @@
+import { inspect } from 'util';
+
+import { RedactedSecret } from '../src/redacted-secret';
+
+describe('RedactedSecret', () => {
+  const secret = new RedactedSecret('api-key', 'sk-12345');
+
+  it('should reveal the value', () => {
+    expect(secret.reveal()).toBe('sk-12345');
+    expect(secret.name).toBe('api-key');
+  });
+
+  it('should redact string conversion', () => {
+    expect(String(secret)).toBe('[REDACTED:api-key]');
+    expect(`${secret}`).toBe('[REDACTED:api-key]');
+    expect('key: ' + secret).toBe('key: [REDACTED:api-key]');
+  });
+
+  it('should redact JSON serialization of an enclosing object', () => {
+    const service = { apiKey: secret, region: 'eu' };
+
+    expect(JSON.stringify(service)).toBe(
+      '{"apiKey":"[REDACTED:api-key]","region":"eu"}',
+    );
+  });
+
+  it('should redact util.inspect output', () => {
+    const output = inspect({ apiKey: secret }, { depth: 5, showHidden: true });
+
+    expect(output).toContain('[REDACTED:api-key]');
+    expect(output).not.toContain('sk-12345');
+  });
+
+  it('should not expose the value through its properties', () => {
+    expect(Object.values(secret)).toEqual(['api-key']);
+    expect(Reflect.ownKeys(secret)).toEqual(['name']);
+  });
+
+  it('should wrap non-string values', () => {
+    const port = new RedactedSecret('port', 8080);
+
+    expect(port.reveal()).toBe(8080);
+    expect(String(port)).toBe('[REDACTED:port]');
+  });
+});
@@ -0,0 +1,186 @@
+import { Logger, LoggerService } from '@nestjs/common';
+
+import { RedactedSecret } from '../src/redacted-secret';
+import { RedactingLogger } from '../src/redacting-logger';
+
+describe('RedactingLogger', () => {
+  let target: jest.Mocked<Required<LoggerService>>;
+  let logger: RedactingLogger;
+
+  beforeEach(() => {
+    target = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+      verbose: jest.fn(),
+      fatal: jest.fn(),
+      setLogLevels: jest.fn(),
+    };
+    logger = new RedactingLogger(target);
+    logger.addSecret('memory:api-key:latest', 'sk-live-12345');
+  });
+
+  describe('redaction', () => {
+    it('should mask secrets in messages and parameters', () => {
+      logger.log('Calling API with sk-live-12345', 'HttpClient');
+      logger.warn('Key sk-live-12345 rejected', 'sk-live-12345');
+
+      expect(target.log).toHaveBeenCalledWith(
+        'Calling API with [REDACTED]',
+        'HttpClient',
+      );
+      expect(target.warn).toHaveBeenCalledWith(
+        'Key [REDACTED] rejected',
+        '[REDACTED]',
+      );
+    });
+
+    it('should mask encoded forms of secrets', () => {
+      const base64 = Buffer.from('sk-live-12345').toString('base64');
+      const header = `Authorization: Basic ${base64}`;
+
+      expect(logger.redact(header)).toBe('Authorization: Basic [REDACTED]');
+      expect(
+        logger.redact(Buffer.from('sk-live-12345').toString('base64url')),
+      ).toBe('[REDACTED]');
+
+      logger.addSecret('db', 'p@ss word/1');
+      expect(logger.redact('postgres://app:p%40ss%20word%2F1@db')).toBe(
+        'postgres://app:[REDACTED]@db',
+      );
+    });
+
+    it('should mask secrets in copies of objects and arrays', () => {
+      class ApiClient {
+        constructor(readonly apiKey: string) {}
+      }
+      const client = new ApiClient('sk-live-12345');
+      const entry = { msg: 'Request', headers: ['x-api-key: sk-live-12345'] };
+
+      const redacted = logger.redact({ entry, client });
+
+      expect(redacted).toEqual({
+        entry: { msg: 'Request', headers: ['x-api-key: [REDACTED]'] },
+        client: { apiKey: '[REDACTED]' },
+      });
+      expect(redacted.client).toBeInstanceOf(ApiClient);
+      expect(entry.headers[0]).toBe('x-api-key: sk-live-12345');
+    });
+
+    it('should mask secrets in error messages and stacks', () => {
+      const error = new Error('Invalid key sk-live-12345');
+
+      logger.error(error, error.stack);
+
+      const [logged, stack] = target.error.mock.calls[0] as [Error, string];
+      expect(logged).toBeInstanceOf(Error);
+      expect(logged.message).toBe('Invalid key [REDACTED]');
+      expect(logged.stack).not.toContain('sk-live-12345');
+      expect(stack).toContain('Error: Invalid key [REDACTED]');
+      expect(error.message).toBe('Invalid key sk-live-12345');
+    });
+
+    it('should handle circular references', () => {
+      const entry: Record<string, unknown> = { key: 'sk-live-12345' };
+      entry.self = entry;
+
+      const redacted = logger.redact(entry);
+
+      expect(redacted.key).toBe('[REDACTED]');
+      expect(redacted.self).toBe(redacted);
+    });
+
+    it('should unwrap redacted secrets', () => {
+      logger.addSecret('token', new RedactedSecret('token', 'tok-67890'));
+
+      expect(logger.redact('token tok-67890')).toBe('token [REDACTED]');
+    });
+
+    it('should not mask short or non-string values', () => {
+      logger.addSecret('port', '80');
+      logger.addSecret('port-number', 8080);
+
+      expect(logger.redact('listening on 80 and 8080')).toBe(
+        'listening on 80 and 8080',
+      );
+    });
+
+    it('should stop masking removed secrets', () => {
+      logger.addSecret('memory:db:latest', 'db-password');
+      logger.addSecret('gcp:db:latest', 'gcp-password');
+
+      logger.removeSecrets('memory:');
+      expect(logger.redact('sk-live-12345 db-password gcp-password')).toBe(
+        'sk-live-12345 db-password [REDACTED]',
+      );
+
+      logger.removeSecret('gcp:db:latest');
+      expect(logger.redact('gcp-password')).toBe('gcp-password');
+    });
+
+    it('should stop masking replaced secrets', () => {
+      logger.addSecret('memory:api-key:latest', 'sk-live-67890');
+
+      expect(logger.redact('sk-live-12345 sk-live-67890')).toBe(
+        'sk-live-12345 [REDACTED]',
+      );
+    });
+  });
+
+  describe('forwarding', () => {
+    it('should forward all levels', () => {
+      logger.debug('debug');
+      logger.verbose('verbose');
+      logger.fatal('fatal');
+      logger.setLogLevels(['error']);
+
+      expect(target.debug).toHaveBeenCalledWith('debug');
+      expect(target.verbose).toHaveBeenCalledWith('verbose');
+      expect(target.fatal).toHaveBeenCalledWith('fatal');
+      expect(target.setLogLevels).toHaveBeenCalledWith(['error']);
+    });
+
+    it('should log fatal messages as errors without fatal support', () => {
+      const minimal = { log: jest.fn(), error: jest.fn(), warn: jest.fn() };
+
+      new RedactingLogger(minimal).fatal('fatal');
+
+      expect(minimal.error).toHaveBeenCalledWith('fatal');
+    });
+  });
+
+  describe('install', () => {
+    afterEach(() => {
+      Logger.overrideLogger(new Logger());
+    });
+
+    it('should wrap the installed logger', () => {
+      Logger.overrideLogger(target);
+      const installed = new RedactingLogger();
+      installed.addSecret('api-key', 'sk-live-12345');
+
+      installed.install();
+      new Logger('Payments').log('Charging with sk-live-12345');
+
+      expect(target.log).toHaveBeenCalledWith(
+        'Charging with [REDACTED]',
+        'Payments',
+      );
+    });
+
+    it('should restore the previous logger', () => {
+      Logger.overrideLogger(target);
+      const installed = new RedactingLogger();
+
+      installed.install();
+      installed.uninstall();
+      new Logger('Payments').log('Charging with sk-live-12345');
+
+      expect(target.log).toHaveBeenCalledWith(
+        'Charging with sk-live-12345',
+        'Payments',
+      );
+    });
+  });
+});
@@ -1,4 +1,6 @@
+import { SecretCacheStore } from '../src/interfaces/secret-cache-store.interface';
 import { SecretCache } from '../src/secret-cache';
+import { InMemorySecretCacheStore } from '../src/stores/in-memory-cache.store';
 
 describe('SecretCache', () => {
   let cache: SecretCache;
@@ -8,90 +10,228 @@ describe('SecretCache', () => {
   });
 
   describe('get/set', () => {
-    it('should store and retrieve a secret', () => {
-      cache.set('gcp', 'api-key', 'secret-value');
-      expect(cache.get('gcp', 'api-key')).toBe('secret-value');
+    it('should store and retrieve a secret', async () => {
+      await cache.set('gcp', 'api-key', 'secret-value');
+      expect(await cache.get('gcp', 'api-key')).toBe('secret-value');
     });
 
-    it('should return undefined for non-existent secrets', () => {
-      expect(cache.get('gcp', 'non-existent')).toBeUndefined();
+    it('should return undefined for non-existent secrets', async () => {
+      expect(await cache.get('gcp', 'non-existent')).toBeUndefined();
     });
 
-    it('should handle different backends separately', () => {
-      cache.set('gcp', 'api-key', 'gcp-value');
-      cache.set('memory', 'api-key', 'memory-value');
+    it('should handle different backends separately', async () => {
+      await cache.set('gcp', 'api-key', 'gcp-value');
+      await cache.set('memory', 'api-key', 'memory-value');
 
-      expect(cache.get('gcp', 'api-key')).toBe('gcp-value');
-      expect(cache.get('memory', 'api-key')).toBe('memory-value');
+      expect(await cache.get('gcp', 'api-key')).toBe('gcp-value');
+      expect(await cache.get('memory', 'api-key')).toBe('memory-value');
     });
 
-    it('should handle different versions separately', () => {
-      cache.set('gcp', 'api-key', 'v1-value', '1');
-      cache.set('gcp', 'api-key', 'v2-value', '2');
-      cache.set('gcp', 'api-key', 'latest-value');
+    it('should handle different versions separately', async () => {
+      await cache.set('gcp', 'api-key', 'v1-value', '1');
+      await cache.set('gcp', 'api-key', 'v2-value', '2');
+      await cache.set('gcp', 'api-key', 'latest-value');
 
-      expect(cache.get('gcp', 'api-key', '1')).toBe('v1-value');
-      expect(cache.get('gcp', 'api-key', '2')).toBe('v2-value');
-      expect(cache.get('gcp', 'api-key')).toBe('latest-value');
+      expect(await cache.get('gcp', 'api-key', '1')).toBe('v1-value');
+      expect(await cache.get('gcp', 'api-key', '2')).toBe('v2-value');
+      expect(await cache.get('gcp', 'api-key')).toBe('latest-value');
     });
 
-    it('should default version to latest', () => {
-      cache.set('gcp', 'api-key', 'latest-value');
-      expect(cache.get('gcp', 'api-key', 'latest')).toBe('latest-value');
-      expect(cache.get('gcp', 'api-key')).toBe('latest-value');
+    it('should default version to latest', async () => {
+      await cache.set('gcp', 'api-key', 'latest-value');
+      expect(await cache.get('gcp', 'api-key', 'latest')).toBe('latest-value');
+      expect(await cache.get('gcp', 'api-key')).toBe('latest-value');
     });
   });
 
   describe('has', () => {
-    it('should return true for cached secrets', () => {
-      cache.set('gcp', 'api-key', 'value');
-      expect(cache.has('gcp', 'api-key')).toBe(true);
+    it('should return true for cached secrets', async () => {
+      await cache.set('gcp', 'api-key', 'value');
+      expect(await cache.has('gcp', 'api-key')).toBe(true);
     });
 
-    it('should return false for non-existent secrets', () => {
-      expect(cache.has('gcp', 'non-existent')).toBe(false);
+    it('should return false for non-existent secrets', async () => {
+      expect(await cache.has('gcp', 'non-existent')).toBe(false);
     });
   });
 
   describe('delete', () => {
-    it('should delete a cached secret', () => {
-      cache.set('gcp', 'api-key', 'value');
-      expect(cache.delete('gcp', 'api-key')).toBe(true);
-      expect(cache.get('gcp', 'api-key')).toBeUndefined();
+    it('should delete a cached secret', async () => {
+      await cache.set('gcp', 'api-key', 'value');
+      expect(await cache.delete('gcp', 'api-key')).toBe(true);
+      expect(await cache.get('gcp', 'api-key')).toBeUndefined();
     });
 
-    it('should return false when deleting non-existent secret', () => {
-      expect(cache.delete('gcp', 'non-existent')).toBe(false);
+    it('should return false when deleting non-existent secret', async () => {
+      expect(await cache.delete('gcp', 'non-existent')).toBe(false);
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should delete all versions of a secret', async () => {
+      await cache.set('file', 'api-key', 'v1-value', '1');
+      await cache.set('file', 'api-key', 'latest-value');
+      await cache.set('file', 'other', 'other-value');
+
+      expect(await cache.invalidate('file', 'api-key')).toBe(2);
+      expect(await cache.get('file', 'api-key', '1')).toBeUndefined();
+      expect(await cache.get('file', 'api-key')).toBeUndefined();
+      expect(await cache.get('file', 'other')).toBe('other-value');
+    });
+
+    it('should delete all secrets of a backend when no name is given', async () => {
+      await cache.set('file', 'key1', 'value1');
+      await cache.set('file', 'key2', 'value2');
+      await cache.set('memory', 'key1', 'value3');
+
+      expect(await cache.invalidate('file')).toBe(2);
+      expect(await cache.get('memory', 'key1')).toBe('value3');
+      expect(cache.size).toBe(1);
     });
   });
 
   describe('clear', () => {
-    it('should clear all cached secrets', () => {
-      cache.set('gcp', 'key1', 'value1');
-      cache.set('gcp', 'key2', 'value2');
-      cache.set('memory', 'key3', 'value3');
+    it('should clear all cached secrets', async () => {
+      await cache.set('gcp', 'key1', 'value1');
+      await cache.set('gcp', 'key2', 'value2');
+      await cache.set('memory', 'key3', 'value3');
 
-      cache.clear();
+      await cache.clear();
 
-      expect(cache.get('gcp', 'key1')).toBeUndefined();
-      expect(cache.get('gcp', 'key2')).toBeUndefined();
-      expect(cache.get('memory', 'key3')).toBeUndefined();
+      expect(await cache.get('gcp', 'key1')).toBeUndefined();
+      expect(await cache.get('gcp', 'key2')).toBeUndefined();
+      expect(await cache.get('memory', 'key3')).toBeUndefined();
       expect(cache.size).toBe(0);
     });
   });
 
+  describe('onRemove', () => {
+    it('should report deleted, evicted and cleared entries', async () => {
+      const listener = jest.fn();
+      cache = new SecretCache(
+        undefined,
+        0,
+        new InMemorySecretCacheStore({ maxEntries: 1 }),
+      );
+      cache.onRemove(listener);
+
+      await cache.set('gcp', 'key1', 'value1');
+      await cache.set('gcp', 'key2', 'value2');
+      await cache.delete('gcp', 'key2');
+      await cache.clear();
+
+      expect(listener.mock.calls).toEqual([
+        ['gcp:key1:latest'],
+        ['gcp:key2:latest'],
+        [],
+      ]);
+    });
+  });
+
   describe('size', () => {
-    it('should return the number of cached entries', () => {
+    it('should return the number of cached entries', async () => {
       expect(cache.size).toBe(0);
 
-      cache.set('gcp', 'key1', 'value1');
+      await cache.set('gcp', 'key1', 'value1');
       expect(cache.size).toBe(1);
 
-      cache.set('gcp', 'key2', 'value2');
+      await cache.set('gcp', 'key2', 'value2');
       expect(cache.size).toBe(2);
     });
   });
 
+  describe('getStats', () => {
+    it('should count hits and misses', async () => {
+      await cache.set('gcp', 'api-key', 'value');
+
+      await cache.get('gcp', 'api-key');
+      await cache.get('gcp', 'api-key');
+      await cache.get('gcp', 'missing');
+
+      expect(cache.getStats()).toEqual({
+        hits: 2,
+        misses: 1,
+        evictions: 0,
+        expirations: 0,
+        size: 1,
+        bytes: Buffer.byteLength('gcp:api-key:latest') + 5,
+      });
+    });
+
+    it('should not count peek and has', async () => {
+      await cache.set('gcp', 'api-key', 'value');
+
+      expect(await cache.peek('gcp', 'api-key')).toBe('value');
+      expect(await cache.has('gcp', 'missing')).toBe(false);
+
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0 });
+    });
+  });
+
+  describe('custom store', () => {
+    let store: jest.Mocked<SecretCacheStore>;
+
+    beforeEach(() => {
+      store = {
+        get: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn().mockResolvedValue(true),
+        clear: jest.fn().mockResolvedValue(undefined),
+      };
+      cache = new SecretCache(1000, 500, store);
+    });
+
+    it('should read and write entries through the store', async () => {
+      store.get.mockResolvedValue({ value: 'value', cachedAt: Date.now() });
+
+      await cache.set('gcp', 'api-key', 'value');
+
+      expect(store.set).toHaveBeenCalledWith(
+        'gcp:api-key:latest',
+        { value: 'value', cachedAt: expect.any(Number) },
+        1500,
+      );
+      expect(await cache.get('gcp', 'api-key')).toBe('value');
+      expect(store.get).toHaveBeenCalledWith('gcp:api-key:latest');
+    });
+
+    it('should not pass an infinite TTL to the store', async () => {
+      cache = new SecretCache(1000, Infinity, store);
+
+      await cache.set('gcp', 'api-key', 'value');
+
+      expect(store.set).toHaveBeenCalledWith(
+        'gcp:api-key:latest',
+        { value: 'value', cachedAt: expect.any(Number) },
+        undefined,
+      );
+    });
+
+    it('should treat store read failures as misses', async () => {
+      store.get.mockRejectedValue(new Error('connection refused'));
+
+      expect(await cache.get('gcp', 'api-key')).toBeUndefined();
+      expect(cache.getStats().misses).toBe(1);
+    });
+
+    it('should not fail when the store cannot write or delete', async () => {
+      store.set.mockRejectedValue(new Error('connection refused'));
+      store.delete.mockRejectedValue(new Error('connection refused'));
+      store.clear.mockRejectedValue(new Error('connection refused'));
+
+      await expect(cache.set('gcp', 'api-key', 'value')).resolves.toBe(
+        undefined,
+      );
+      expect(await cache.delete('gcp', 'api-key')).toBe(false);
+      await expect(cache.clear()).resolves.toBe(undefined);
+    });
+
+    it('should skip invalidation when the store cannot list keys', async () => {
+      expect(await cache.invalidate('gcp', 'api-key')).toBe(0);
+      expect(store.delete).not.toHaveBeenCalled();
+    });
+  });
+
   describe('TTL', () => {
     beforeEach(() => {
       jest.useFakeTimers();
@@ -101,36 +241,73 @@ describe('SecretCache', () => {
       jest.useRealTimers();
     });
 
-    it('should expire entries after TTL', () => {
+    it('should expire entries after TTL', async () => {
       const ttlCache = new SecretCache(1000); // 1 second TTL
 
-      ttlCache.set('gcp', 'api-key', 'value');
-      expect(ttlCache.get('gcp', 'api-key')).toBe('value');
+      await ttlCache.set('gcp', 'api-key', 'value');
+      expect(await ttlCache.get('gcp', 'api-key')).toBe('value');
 
       // Advance time past TTL
       jest.advanceTimersByTime(1001);
 
-      expect(ttlCache.get('gcp', 'api-key')).toBeUndefined();
+      expect(await ttlCache.get('gcp', 'api-key')).toBeUndefined();
     });
 
-    it('should not expire entries before TTL', () => {
+    it('should not expire entries before TTL', async () => {
       const ttlCache = new SecretCache(1000);
 
-      ttlCache.set('gcp', 'api-key', 'value');
+      await ttlCache.set('gcp', 'api-key', 'value');
 
       // Advance time but not past TTL
       jest.advanceTimersByTime(500);
 
-      expect(ttlCache.get('gcp', 'api-key')).toBe('value');
+      expect(await ttlCache.get('gcp', 'api-key')).toBe('value');
+    });
+
+    it('should keep expired entries for getStale within the stale window', async () => {
+      const staleCache = new SecretCache(1000, 500);
+
+      await staleCache.set('gcp', 'api-key', 'value');
+      jest.advanceTimersByTime(1200);
+
+      expect(await staleCache.get('gcp', 'api-key')).toBeUndefined();
+      expect(await staleCache.getStale('gcp', 'api-key')).toBe('value');
+
+      jest.advanceTimersByTime(301);
+
+      expect(await staleCache.getStale('gcp', 'api-key')).toBeUndefined();
+      expect(staleCache.size).toBe(0);
+    });
+
+    it('should not serve stale entries without a stale window', async () => {
+      const ttlCache = new SecretCache(1000);
+
+      await ttlCache.set('gcp', 'api-key', 'value');
+      jest.advanceTimersByTime(1001);
+
+      expect(await ttlCache.getStale('gcp', 'api-key')).toBeUndefined();
+    });
+
+    it('should sweep expired entries without reading them', async () => {
+      const ttlCache = new SecretCache(1000);
+
+      await ttlCache.set('gcp', 'key1', 'value1');
+      jest.advanceTimersByTime(600);
+      await ttlCache.set('gcp', 'key2', 'value2');
+      jest.advanceTimersByTime(500);
+
+      expect(await ttlCache.sweep()).toBe(1);
+      expect(ttlCache.size).toBe(1);
+      expect(ttlCache.getStats().expirations).toBe(1);
     });
 
-    it('should not expire entries when TTL is undefined', () => {
-      cache.set('gcp', 'api-key', 'value');
+    it('should not expire entries when TTL is undefined', async () => {
+      await cache.set('gcp', 'api-key', 'value');
 
       // Advance time significantly
       jest.advanceTimersByTime(1000000);
 
-      expect(cache.get('gcp', 'api-key')).toBe('value');
+      expect(await cache.get('gcp', 'api-key')).toBe('value');
     });
   });
 });
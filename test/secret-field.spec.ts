@@ -0,0 +1,51 @@
+import { SecretFieldError } from '../src/errors/secret-field.error';
+import { extractSecretField } from '../src/secret-field';
+
+describe('extractSecretField', () => {
+  const document = JSON.stringify({
+    user: 'app',
+    password: 'hunter2',
+    port: 5432,
+    replica: { host: 'replica.internal', 'a/b': 'slash' },
+  });
+
+  it('should extract a top-level property', () => {
+    expect(extractSecretField(document, 'password', 'db', 'gcp')).toBe(
+      'hunter2',
+    );
+  });
+
+  it('should extract nested values with a JSON pointer', () => {
+    expect(extractSecretField(document, '/replica/host', 'db', 'gcp')).toBe(
+      'replica.internal',
+    );
+    expect(extractSecretField(document, '/replica/a~1b', 'db', 'gcp')).toBe(
+      'slash',
+    );
+  });
+
+  it('should serialize non-string values as JSON', () => {
+    expect(extractSecretField(document, 'port', 'db', 'gcp')).toBe('5432');
+    expect(
+      JSON.parse(extractSecretField(document, 'replica', 'db', 'gcp')),
+    ).toEqual({ host: 'replica.internal', 'a/b': 'slash' });
+  });
+
+  it('should throw SecretFieldError for malformed JSON', () => {
+    expect(() =>
+      extractSecretField('not-json', 'password', 'db', 'gcp'),
+    ).toThrow(SecretFieldError);
+  });
+
+  it('should throw SecretFieldError for missing fields', () => {
+    try {
+      extractSecretField(document, '/replica/port', 'db', 'gcp');
+      fail('Expected error to be thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SecretFieldError);
+      expect((error as SecretFieldError).secretName).toBe('db');
+      expect((error as SecretFieldError).field).toBe('/replica/port');
+      expect((error as SecretFieldError).message).toContain('field not found');
+    }
+  });
+});
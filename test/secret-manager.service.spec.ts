@@ -1,9 +1,23 @@
+import { Logger } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { Span, Tracer, trace } from '@opentelemetry/api';
+import { randomBytes } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 import { InMemorySecretBackend } from '../src/backends/in-memory.backend';
 import { SECRET_MANAGER_OPTIONS, secretRegistry } from '../src/constants';
+import { SecretAccessDeniedError } from '../src/errors/secret-access-denied.error';
+import { SecretFieldError } from '../src/errors/secret-field.error';
 import { SecretNotFoundError } from '../src/errors/secret-not-found.error';
+import { SecretOperationNotSupportedError } from '../src/errors/secret-operation-not-supported.error';
+import { SecretBackendRequest } from '../src/interfaces/secret-backend.interface';
+import { SecretCacheEntry } from '../src/interfaces/secret-cache-store.interface';
+import { SecretManagerModuleOptions } from '../src/interfaces/secret-manager-options.interface';
 import { SecretManagerService } from '../src/secret-manager.service';
+import { InMemorySecretCacheStore } from '../src/stores/in-memory-cache.store';
+import { EventEmitterInvalidationTransport } from '../src/transports/event-emitter-invalidation.transport';
 
 describe('SecretManagerService', () => {
   let service: SecretManagerService;
@@ -82,6 +96,329 @@ describe('SecretManagerService', () => {
     });
   });
 
+  describe('concurrent fetches', () => {
+    let backendGet: jest.Mock<Promise<string>, [string, string?]>;
+
+    beforeEach(() => {
+      backendGet = jest.fn().mockResolvedValue('remote-value');
+      service.registerBackend({
+        name: 'remote',
+        get: backendGet,
+        getLatest: (name) => backendGet(name, 'latest'),
+      });
+    });
+
+    it('should share one backend call between concurrent callers', async () => {
+      const values = await Promise.all([
+        service.get('api-key', undefined, 'remote'),
+        service.get('api-key', undefined, 'remote'),
+        service.get('remote://api-key'),
+      ]);
+
+      expect(values).toEqual(['remote-value', 'remote-value', 'remote-value']);
+      expect(backendGet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch different versions separately', async () => {
+      await Promise.all([
+        service.get('api-key', '1', 'remote'),
+        service.get('api-key', '2', 'remote'),
+      ]);
+
+      expect(backendGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry transient backend errors', async () => {
+      backendGet.mockRejectedValueOnce(
+        Object.assign(new Error('unavailable'), { code: 14 }),
+      );
+
+      expect(await service.get('api-key', undefined, 'remote')).toBe(
+        'remote-value',
+      );
+      expect(backendGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not keep failed fetches', async () => {
+      backendGet.mockRejectedValueOnce(new Error('unavailable'));
+
+      const results = await Promise.allSettled([
+        service.get('api-key', undefined, 'remote'),
+        service.get('api-key', undefined, 'remote'),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        'rejected',
+        'rejected',
+      ]);
+      expect(await service.get('api-key', undefined, 'remote')).toBe(
+        'remote-value',
+      );
+      expect(backendGet).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getMany', () => {
+    it('should return values and per-secret errors keyed like the requests', async () => {
+      service.getInMemoryBackend().set('db-port', '5432');
+
+      const result = await service.getMany({
+        apiKey: 'api-key',
+        port: { name: 'memory://db-port', transform: 'number' },
+        missing: 'non-existent',
+        invalid: { name: 'api-key', backend: 'unknown' },
+      });
+
+      expect(result.values).toEqual({
+        apiKey: 'test-api-key-value',
+        port: 5432,
+      });
+      expect(Object.keys(result.errors).sort()).toEqual(['invalid', 'missing']);
+      expect(result.errors.missing).toBeInstanceOf(SecretNotFoundError);
+      expect(result.errors.invalid!.message).toContain(
+        "Unknown secret backend: 'unknown'",
+      );
+    });
+
+    describe('with a batch backend', () => {
+      let batchGet: jest.Mock<
+        Promise<PromiseSettledResult<string>[]>,
+        [SecretBackendRequest[]]
+      >;
+      let backendGet: jest.Mock<Promise<string>, [string, string?]>;
+
+      beforeEach(() => {
+        batchGet = jest.fn(async (requests) =>
+          requests.map(
+            ({ name }): PromiseSettledResult<string> =>
+              name === 'missing'
+                ? {
+                    status: 'rejected',
+                    reason: new SecretNotFoundError(name, 'batch'),
+                  }
+                : { status: 'fulfilled', value: `${name}-value` },
+          ),
+        );
+        backendGet = jest.fn(async (name) => `${name}-single`);
+        service.registerBackend({
+          name: 'batch',
+          get: backendGet,
+          getLatest: (name) => backendGet(name, 'latest'),
+          getMany: batchGet,
+        });
+      });
+
+      it('should fetch the secrets of a backend in one call', async () => {
+        const result = await service.getMany({
+          a: 'batch://a',
+          b: 'batch://b#2',
+          missing: 'batch://missing',
+        });
+
+        expect(batchGet).toHaveBeenCalledTimes(1);
+        expect(batchGet).toHaveBeenCalledWith([
+          { name: 'a', version: 'latest' },
+          { name: 'b', version: '2' },
+          { name: 'missing', version: 'latest' },
+        ]);
+        expect(backendGet).not.toHaveBeenCalled();
+        expect(result.values).toEqual({ a: 'a-value', b: 'b-value' });
+        expect(result.errors.missing).toBeInstanceOf(SecretNotFoundError);
+      });
+
+      it('should cache batch results', async () => {
+        await service.getMany({ a: 'batch://a', b: 'batch://b' });
+
+        expect(await service.get('batch://a')).toBe('a-value');
+        expect(backendGet).not.toHaveBeenCalled();
+      });
+
+      it('should report a failed batch call for every secret', async () => {
+        batchGet.mockRejectedValueOnce(new Error('batch failed'));
+
+        const result = await service.getMany({
+          a: 'batch://a',
+          b: 'batch://b',
+        });
+
+        expect(result.values).toEqual({});
+        expect(result.errors.a!.message).toBe('batch failed');
+        expect(result.errors.b!.message).toBe('batch failed');
+      });
+
+      it('should use get() for a single secret', async () => {
+        const result = await service.getMany({ a: 'batch://a' });
+
+        expect(result.values).toEqual({ a: 'a-single' });
+        expect(batchGet).not.toHaveBeenCalled();
+      });
+
+      it('should join fetches already in flight', async () => {
+        const pending = service.get('batch://a');
+
+        const result = await service.getMany({
+          a: 'batch://a',
+          b: 'batch://b',
+        });
+
+        expect(result.values).toEqual({ a: 'a-single', b: 'b-value' });
+        expect(await pending).toBe('a-single');
+        expect(backendGet).toHaveBeenCalledTimes(1);
+      });
+
+      it('should record the version metadata of batch results', async () => {
+        await service.getMany({ a: 'batch://a', b: 'batch://b#2' });
+
+        expect(
+          (await service.getWithMetadata('batch://b#2')).resolvedVersion,
+        ).toBe('2');
+        expect(batchGet).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('secret references', () => {
+    it('should resolve backend and name from a reference', async () => {
+      const value = await service.get('memory://api-key');
+      expect(value).toBe('test-api-key-value');
+    });
+
+    it('should resolve the version from a reference', async () => {
+      service.getInMemoryBackend().set('api-key', 'v2-value', '2');
+
+      expect(await service.get('memory://api-key#2')).toBe('v2-value');
+    });
+
+    it('should reject references that conflict with the backend', async () => {
+      await expect(
+        service.get('memory://api-key', undefined, 'env'),
+      ).rejects.toThrow("conflicts with backend 'env'");
+    });
+  });
+
+  describe('field extraction', () => {
+    beforeEach(() => {
+      service
+        .getInMemoryBackend()
+        .set('db-credentials', '{"user":"app","password":"hunter2"}');
+    });
+
+    it('should extract a field from a JSON secret', async () => {
+      expect(
+        await service.get('db-credentials', undefined, undefined, {
+          field: 'password',
+        }),
+      ).toBe('hunter2');
+    });
+
+    it('should fetch the raw secret once for multiple fields', async () => {
+      const backend = service.getInMemoryBackend();
+      const getSpy = jest.spyOn(backend, 'get');
+
+      await service.get('db-credentials', undefined, undefined, {
+        field: 'user',
+      });
+      await service.get('db-credentials', undefined, undefined, {
+        field: 'password',
+      });
+
+      expect(getSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw SecretFieldError for a missing field', async () => {
+      await expect(
+        service.get('db-credentials', undefined, undefined, {
+          field: 'host',
+        }),
+      ).rejects.toThrow(SecretFieldError);
+    });
+  });
+
+  describe('transforms', () => {
+    it('should apply the transform to the value', async () => {
+      service.getInMemoryBackend().set('db-port', '5432');
+
+      const port = await service.get<number>('db-port', undefined, undefined, {
+        transform: 'number',
+      });
+
+      expect(port).toBe(5432);
+    });
+
+    it('should apply the transform after field extraction', async () => {
+      service.getInMemoryBackend().set('db', '{"port":"5432"}');
+
+      const port = await service.get<number>('db', undefined, undefined, {
+        field: 'port',
+        transform: 'number',
+      });
+
+      expect(port).toBe(5432);
+    });
+  });
+
+  describe('refresh', () => {
+    it('should bypass and update the cache', async () => {
+      await service.get('api-key');
+      service.getInMemoryBackend().set('api-key', 'modified-value');
+
+      expect(await service.refresh('api-key')).toBe('modified-value');
+      expect(await service.get('api-key')).toBe('modified-value');
+    });
+  });
+
+  describe('getRef', () => {
+    it('should return a handle with the current value', async () => {
+      const ref = await service.getRef('api-key');
+
+      expect(ref.name).toBe('api-key');
+      expect(ref.backend).toBe('memory');
+      expect(ref.value).toBe('test-api-key-value');
+    });
+
+    it('should update the handle on refresh', async () => {
+      const ref = await service.getRef('api-key');
+      service.getInMemoryBackend().set('api-key', 'modified-value');
+
+      expect(await ref.refresh()).toBe('modified-value');
+      expect(ref.value).toBe('modified-value');
+    });
+
+    it('should report the version the value was resolved to', async () => {
+      const backend = service.getInMemoryBackend();
+      await backend.createSecret('versioned-key');
+      await backend.addVersion('versioned-key', 'first-value');
+      const ref = await service.getRef('versioned-key');
+
+      expect(ref.version).toBe('1');
+
+      await backend.addVersion('versioned-key', 'second-value');
+      await service.refreshSecrets();
+      await new Promise(process.nextTick);
+
+      expect(ref.value).toBe('second-value');
+      expect(ref.version).toBe('2');
+
+      await backend.addVersion('versioned-key', 'third-value');
+      await ref.refresh();
+
+      expect(ref.version).toBe('3');
+    });
+  });
+
+  describe('getStats', () => {
+    it('should report cache statistics', async () => {
+      await service.get('api-key');
+      await service.get('api-key');
+
+      expect(service.getStats()).toMatchObject({
+        hits: 1,
+        misses: 1,
+        size: 1,
+      });
+    });
+  });
+
   describe('getLatest', () => {
     it('should retrieve the latest version of a secret', async () => {
       const value = await service.getLatest('api-key');
@@ -120,6 +457,19 @@ describe('SecretManagerService', () => {
     });
   });
 
+  describe('env backend', () => {
+    it('should read secrets from environment variables', async () => {
+      process.env.SERVICE_SPEC_TOKEN = 'env-value';
+
+      try {
+        const value = await service.get('service-spec-token', undefined, 'env');
+        expect(value).toBe('env-value');
+      } finally {
+        delete process.env.SERVICE_SPEC_TOKEN;
+      }
+    });
+  });
+
   describe('unknown backend', () => {
     it('should throw error for unknown backend', async () => {
       await expect(
@@ -163,6 +513,165 @@ describe('SecretManagerService with validation', () => {
     await module.close();
   });
 
+  it('should report malformed structured secrets during validation', async () => {
+    secretRegistry.register('db-credentials', { field: 'password' });
+
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'db-credentials': 'not-json',
+            },
+            validateOnStartup: true,
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+
+    await expect(service.onModuleInit()).rejects.toThrow(
+      "Cannot extract field 'password' from secret 'db-credentials'",
+    );
+    await module.close();
+  });
+
+  it('should fail validation when a transform rejects the value', async () => {
+    secretRegistry.register('db-port', { transform: 'number' });
+
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'db-port': 'not-a-port',
+            },
+            validateOnStartup: true,
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+
+    await expect(service.onModuleInit()).rejects.toThrow(
+      "Cannot apply transform 'number' to secret 'db-port'",
+    );
+    await module.close();
+  });
+
+  it('should report every failed secret in one error', async () => {
+    secretRegistry.register('db-port', { transform: 'number' });
+    secretRegistry.register('missing-secret');
+    secretRegistry.register('api-key');
+
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'db-port': 'not-a-port',
+              'api-key': 'value',
+            },
+            validateOnStartup: true,
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+    const error = await service.onModuleInit().catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain(
+      'Failed to validate 2 secret(s)',
+    );
+    expect((error as Error).message).toContain("'db-port'");
+    expect((error as Error).message).toContain("'missing-secret'");
+    await module.close();
+  });
+
+  it('should validate secrets concurrently up to the limit', async () => {
+    const names = ['a', 'b', 'c', 'd', 'e'];
+    names.forEach((name) => secretRegistry.register(`slow://${name}`));
+
+    let active = 0;
+    let maxActive = 0;
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            validateOnStartup: true,
+            fetchConcurrency: 2,
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+    service.registerBackend({
+      name: 'slow',
+      get: async (name) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return name;
+      },
+      getLatest: async (name) => name,
+    });
+
+    await service.onModuleInit();
+
+    expect(maxActive).toBe(2);
+    await module.close();
+  });
+
+  it('should fail secrets still pending when the time budget runs out', async () => {
+    secretRegistry.register('api-key');
+    secretRegistry.register('hanging://db-password');
+
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'api-key': 'value' },
+            validateOnStartup: true,
+            validationTimeout: 20,
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+    service.registerBackend({
+      name: 'hanging',
+      get: () => new Promise(() => undefined),
+      getLatest: () => new Promise(() => undefined),
+    });
+
+    await expect(service.onModuleInit()).rejects.toThrow(
+      /Failed to validate 1 secret\(s\):\n {2}- Timed out after 20ms fetching secret 'db-password' from backend 'hanging'/,
+    );
+    await module.close();
+  });
+
   // TODO: This test correctly throws the error but Jest has issues catching it
   // The behavior is correct - the app fails to start when secrets are missing
   it.skip('should fail startup when secret is missing', async () => {
@@ -242,3 +751,1415 @@ describe('SecretManagerService without caching', () => {
     expect(value).toBe('modified-value');
   });
 });
+
+describe('SecretManagerService with file backend', () => {
+  let service: SecretManagerService;
+  let module: TestingModule;
+  let directory: string;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+    directory = mkdtempSync(join(tmpdir(), 'secret-manager-'));
+    writeFileSync(join(directory, 'api-key'), 'initial-value\n');
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'file',
+            fileSecretsDir: directory,
+            validateOnStartup: false,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    rmSync(directory, { recursive: true, force: true });
+    secretRegistry.clear();
+  });
+
+  it('should drop cached values when a secret file changes', async () => {
+    expect(await service.get('api-key')).toBe('initial-value');
+
+    writeFileSync(join(directory, 'api-key'), 'rotated-value\n');
+
+    const deadline = Date.now() + 5000;
+    let value = await service.get('api-key');
+    while (value !== 'rotated-value' && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      value = await service.get('api-key');
+    }
+
+    expect(value).toBe('rotated-value');
+  });
+});
+
+describe('SecretManagerService with file overrides in a chain', () => {
+  let service: SecretManagerService;
+  let module: TestingModule;
+  let directory: string;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+    directory = mkdtempSync(join(tmpdir(), 'secret-manager-'));
+    writeFileSync(join(directory, 'api-key'), 'override-value\n');
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'chain',
+            chainedBackends: ['file', 'memory'],
+            fileSecretsDir: directory,
+            inMemorySecrets: { 'api-key': 'memory-value' },
+            validateOnStartup: false,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    rmSync(directory, { recursive: true, force: true });
+    secretRegistry.clear();
+  });
+
+  it('should drop cached chain values when an override file changes', async () => {
+    expect(await service.get('api-key')).toBe('override-value');
+
+    writeFileSync(join(directory, 'api-key'), 'changed-override\n');
+
+    const deadline = Date.now() + 5000;
+    let value = await service.get('api-key');
+    while (value !== 'changed-override' && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      value = await service.get('api-key');
+    }
+
+    expect(value).toBe('changed-override');
+  });
+
+  it('should fall through when the override directory is missing', async () => {
+    const withoutOverrides = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'chain',
+            chainedBackends: ['file', 'memory'],
+            fileSecretsDir: join(directory, 'missing'),
+            inMemorySecrets: { 'api-key': 'memory-value' },
+            validateOnStartup: false,
+          },
+        },
+      ],
+    }).compile();
+
+    expect(
+      await withoutOverrides.get(SecretManagerService).get('api-key'),
+    ).toBe('memory-value');
+    await withoutOverrides.close();
+  });
+});
+
+describe('SecretManagerService with chained backends', () => {
+  let service: SecretManagerService;
+  let module: TestingModule;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+    process.env.CHAIN_SPEC_API_KEY = 'env-value';
+    process.env.CHAIN_SPEC_DB_PASSWORD = 'env-password';
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'chain',
+            chainedBackends: ['memory', 'env'],
+            envPrefix: 'CHAIN_SPEC_',
+            inMemorySecrets: {
+              'api-key': 'local-override',
+            },
+            validateOnStartup: false,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    delete process.env.CHAIN_SPEC_API_KEY;
+    delete process.env.CHAIN_SPEC_DB_PASSWORD;
+    secretRegistry.clear();
+  });
+
+  it('should serve local overrides before other backends', async () => {
+    expect(await service.get('api-key')).toBe('local-override');
+    expect(await service.get('db-password')).toBe('env-password');
+  });
+
+  it('should report the chained backend that served a value', async () => {
+    expect(await service.getWithMetadata('api-key')).toMatchObject({
+      value: 'local-override',
+      backend: 'memory',
+    });
+    expect(await service.getWithMetadata('db-password')).toMatchObject({
+      value: 'env-password',
+      backend: 'env',
+    });
+
+    // Served from the cache
+    expect((await service.getWithMetadata('api-key')).backend).toBe('memory');
+  });
+});
+
+describe('SecretManagerService rotation', () => {
+  let service: SecretManagerService;
+  let module: TestingModule;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'db-password': 'initial-password',
+            },
+            validateOnStartup: false,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    secretRegistry.clear();
+  });
+
+  it('should notify subscribers and update the cache when a secret rotates', async () => {
+    const listener = jest.fn();
+    service.onChange('db-password', listener);
+
+    // First refresh records the current value
+    await service.refreshSecrets();
+    expect(listener).not.toHaveBeenCalled();
+
+    service.getInMemoryBackend().set('db-password', 'rotated-password');
+    await service.refreshSecrets();
+    await new Promise(process.nextTick);
+
+    expect(listener).toHaveBeenCalledWith({
+      name: 'db-password',
+      backend: 'memory',
+      value: 'rotated-password',
+      version: 'latest',
+    });
+    expect(await service.get('db-password')).toBe('rotated-password');
+  });
+
+  it('should not notify subscribers when the value is unchanged', async () => {
+    const listener = jest.fn();
+    service.onChange('db-password', listener);
+
+    await service.refreshSecrets();
+    await service.refreshSecrets();
+    await new Promise(process.nextTick);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribing', async () => {
+    const listener = jest.fn();
+    const unsubscribe = service.onChange('db-password', listener);
+    await service.refreshSecrets();
+
+    unsubscribe();
+    service.getInMemoryBackend().set('db-password', 'rotated-password');
+    await service.refreshSecrets();
+    await new Promise(process.nextTick);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should reject subscriptions to pinned versions', () => {
+    expect(() => service.onChange('memory://db-password#2', jest.fn())).toThrow(
+      "only 'latest' secrets rotate",
+    );
+  });
+});
+
+describe('SecretManagerService with rotationInterval', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+  let backendGet: jest.SpyInstance;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+    jest.useFakeTimers();
+    secretRegistry.register('api-key');
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'api-key': 'initial-value',
+              'tenant-1': 'tenant-value',
+            },
+            validateOnStartup: false,
+            rotationInterval: 1000,
+          },
+        },
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+    backendGet = jest.spyOn(service.getInMemoryBackend(), 'get');
+  });
+
+  afterEach(async () => {
+    await module.close();
+    jest.useRealTimers();
+    secretRegistry.clear();
+  });
+
+  it('should periodically refresh registered latest secrets', async () => {
+    expect(await service.get('api-key')).toBe('initial-value');
+
+    service.getInMemoryBackend().set('api-key', 'rotated-value');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await service.get('api-key')).toBe('rotated-value');
+  });
+
+  it('should not poll secrets that are only fetched', async () => {
+    await service.get('tenant-1');
+    backendGet.mockClear();
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(backendGet).not.toHaveBeenCalledWith('tenant-1', 'latest');
+  });
+
+  it('should stop polling secrets once unsubscribed', async () => {
+    const unsubscribe = service.onChange('tenant-1', () => undefined);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(backendGet).toHaveBeenCalledWith('tenant-1', 'latest');
+
+    unsubscribe();
+    backendGet.mockClear();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(backendGet).not.toHaveBeenCalledWith('tenant-1', 'latest');
+    expect(backendGet).toHaveBeenCalledWith('api-key', 'latest');
+  });
+});
+
+describe('SecretManagerService cache modes', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+  let backendGet: jest.Mock<Promise<string>, [string, string?]>;
+
+  async function createService(
+    options: Partial<SecretManagerModuleOptions>,
+  ): Promise<void> {
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'remote',
+            validateOnStartup: false,
+            cacheTTL: 1000,
+            ...options,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+    service.registerBackend({
+      name: 'remote',
+      get: backendGet,
+      getLatest: (name) => backendGet(name, 'latest'),
+    });
+  }
+
+  beforeEach(() => {
+    secretRegistry.clear();
+    jest.useFakeTimers();
+    backendGet = jest.fn().mockResolvedValue('initial-value');
+  });
+
+  afterEach(async () => {
+    await module.close();
+    jest.useRealTimers();
+    secretRegistry.clear();
+  });
+
+  describe('expire', () => {
+    it('should surface backend errors once the TTL has passed', async () => {
+      await createService({});
+      await service.get('api-key');
+
+      jest.advanceTimersByTime(1001);
+      backendGet.mockRejectedValue(new Error('unavailable'));
+
+      await expect(service.get('api-key')).rejects.toThrow('unavailable');
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    beforeEach(async () => {
+      await createService({ cacheMode: 'stale-while-revalidate' });
+      await service.get('api-key');
+      jest.advanceTimersByTime(1001);
+    });
+
+    it('should return the stale value and refresh it in the background', async () => {
+      backendGet.mockResolvedValue('rotated-value');
+
+      expect(await service.get('api-key')).toBe('initial-value');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(await service.get('api-key')).toBe('rotated-value');
+      expect(backendGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run one background refresh per secret at a time', async () => {
+      backendGet.mockReturnValue(new Promise(() => undefined));
+
+      await service.get('api-key');
+      await service.get('api-key');
+
+      expect(backendGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep serving the stale value when the refresh fails', async () => {
+      backendGet.mockRejectedValue(new Error('unavailable'));
+
+      expect(await service.get('api-key')).toBe('initial-value');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(await service.get('api-key')).toBe('initial-value');
+    });
+
+    it('should drop the stale value of a deleted secret', async () => {
+      backendGet.mockRejectedValue(
+        new SecretNotFoundError('api-key', 'remote'),
+      );
+
+      expect(await service.get('api-key')).toBe('initial-value');
+      await jest.advanceTimersByTimeAsync(0);
+
+      await expect(service.get('api-key')).rejects.toThrow(SecretNotFoundError);
+    });
+
+    it('should stop serving stale values after the default grace period', async () => {
+      backendGet.mockRejectedValue(new Error('unavailable'));
+      jest.advanceTimersByTime(3600000);
+
+      await expect(service.get('api-key')).rejects.toThrow('unavailable');
+    });
+
+    it('should record the stale value on the span', async () => {
+      const span = { setAttribute: jest.fn() } as unknown as Span;
+      jest.spyOn(trace, 'getActiveSpan').mockReturnValue(span);
+
+      await service.get('api-key');
+
+      expect(span.setAttribute).toHaveBeenCalledWith('secret.stale', true);
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        'secret.stale_reason',
+        'revalidating',
+      );
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('stale-if-error', () => {
+    beforeEach(async () => {
+      await createService({
+        cacheMode: 'stale-if-error',
+        cacheStaleGracePeriod: 5000,
+      });
+      await service.get('api-key');
+      jest.advanceTimersByTime(1001);
+    });
+
+    it('should return fresh values when the backend is available', async () => {
+      backendGet.mockResolvedValue('rotated-value');
+
+      expect(await service.get('api-key')).toBe('rotated-value');
+    });
+
+    it('should serve the stale value when the backend fails', async () => {
+      backendGet.mockRejectedValue(new Error('unavailable'));
+
+      expect(await service.get('api-key')).toBe('initial-value');
+    });
+
+    it('should not mask missing secrets or denied access', async () => {
+      backendGet.mockRejectedValueOnce(
+        new SecretNotFoundError('api-key', 'remote'),
+      );
+      await expect(service.get('api-key')).rejects.toThrow(SecretNotFoundError);
+
+      backendGet.mockRejectedValueOnce(
+        new SecretAccessDeniedError('api-key', 'remote'),
+      );
+      await expect(service.get('api-key')).rejects.toThrow(
+        SecretAccessDeniedError,
+      );
+    });
+
+    it('should serve stale values when a batch call fails', async () => {
+      const getMany = jest.fn().mockResolvedValue([
+        { status: 'fulfilled', value: 'a-value' },
+        { status: 'fulfilled', value: 'b-value' },
+      ]);
+      service.registerBackend({
+        name: 'batch',
+        get: backendGet,
+        getLatest: (name) => backendGet(name, 'latest'),
+        getMany,
+      });
+      await service.getMany({ a: 'batch://a', b: 'batch://b' });
+
+      jest.advanceTimersByTime(1001);
+      getMany.mockRejectedValue(new Error('unavailable'));
+
+      const result = await service.getMany({ a: 'batch://a', b: 'batch://b' });
+      expect(result.values).toEqual({ a: 'a-value', b: 'b-value' });
+      expect(getMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop serving stale values after the grace period', async () => {
+      backendGet.mockRejectedValue(new Error('unavailable'));
+      jest.advanceTimersByTime(5000);
+
+      await expect(service.get('api-key')).rejects.toThrow('unavailable');
+    });
+  });
+});
+
+describe('SecretManagerService cache sweeping', () => {
+  beforeEach(() => {
+    secretRegistry.clear();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    secretRegistry.clear();
+  });
+
+  it('should periodically drop expired entries', async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'api-key': 'value' },
+            validateOnStartup: false,
+            cacheTTL: 1000,
+            cacheSweepInterval: 500,
+          },
+        },
+      ],
+    }).compile();
+    await module.init();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+    await service.get('api-key');
+    expect(service.getStats().size).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1500);
+
+    expect(service.getStats()).toMatchObject({ size: 0, expirations: 1 });
+    await module.close();
+  });
+});
+
+describe('SecretManagerService with a custom cache store', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+  let store: InMemorySecretCacheStore;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+    store = new InMemorySecretCacheStore();
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'api-key': 'value' },
+            validateOnStartup: false,
+            cacheStore: store,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    secretRegistry.clear();
+  });
+
+  it('should cache secrets in the store', async () => {
+    await service.get('api-key');
+
+    expect(store.get('memory:api-key:latest')).toMatchObject({
+      value: 'value',
+    });
+  });
+
+  it('should serve secrets from the backend when the store fails', async () => {
+    jest.spyOn(store, 'get').mockImplementation(() => {
+      throw new Error('store unavailable');
+    });
+    jest.spyOn(store, 'set').mockImplementation(() => {
+      throw new Error('store unavailable');
+    });
+
+    expect(await service.get('api-key')).toBe('value');
+    expect(service.getStats().misses).toBe(1);
+  });
+});
+
+describe('SecretManagerService with cache encryption', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'api-key': 'initial-value' },
+            validateOnStartup: false,
+            cacheEncryption: true,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    secretRegistry.clear();
+  });
+
+  it('should serve cached values and drop them on clearCache', async () => {
+    expect(await service.get('api-key')).toBe('initial-value');
+    service.getInMemoryBackend().set('api-key', 'modified-value');
+
+    expect(await service.get('api-key')).toBe('initial-value');
+
+    await service.clearCache();
+
+    expect(await service.get('api-key')).toBe('modified-value');
+    expect(service.getStats().hits).toBe(1);
+  });
+});
+
+describe('SecretManagerService with an offline snapshot', () => {
+  let directory: string;
+  let snapshot: SecretManagerModuleOptions['snapshot'];
+  let backendGet: jest.Mock<Promise<string>, [string, string?]>;
+
+  async function boot(): Promise<{
+    module: TestingModule;
+    service: SecretManagerService;
+  }> {
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'remote',
+            validateOnStartup: true,
+            resilience: { retries: 0 },
+            snapshot,
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<SecretManagerService>(SecretManagerService);
+    service.registerBackend({
+      name: 'remote',
+      get: backendGet,
+      getLatest: (name) => backendGet(name, 'latest'),
+    });
+    await service.onModuleInit();
+
+    return { module, service };
+  }
+
+  beforeEach(() => {
+    secretRegistry.clear();
+    secretRegistry.register('api-key');
+    directory = mkdtempSync(join(tmpdir(), 'secret-manager-'));
+    snapshot = {
+      path: join(directory, 'secrets.snapshot'),
+      key: randomBytes(32),
+      maxAge: 60000,
+    };
+    backendGet = jest.fn().mockResolvedValue('snapshot-value');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    secretRegistry.clear();
+  });
+
+  it('should start from the snapshot when the backend is unreachable', async () => {
+    const first = await boot();
+    await first.module.close();
+
+    backendGet.mockRejectedValue(
+      Object.assign(new Error('unavailable'), { code: 14 }),
+    );
+    const second = await boot();
+
+    expect(await second.service.get('api-key')).toBe('snapshot-value');
+    await second.module.close();
+  });
+
+  it('should not serve snapshot values for missing secrets', async () => {
+    const first = await boot();
+    await first.module.close();
+
+    backendGet.mockRejectedValue(new SecretNotFoundError('api-key', 'remote'));
+
+    await expect(boot()).rejects.toThrow('Failed to validate 1 secret(s)');
+  });
+
+  it('should not serve snapshot values older than the maximum age', async () => {
+    const first = await boot();
+    await first.module.close();
+
+    snapshot = { ...snapshot!, maxAge: -1 };
+    backendGet.mockRejectedValue(
+      Object.assign(new Error('unavailable'), { code: 14 }),
+    );
+
+    await expect(boot()).rejects.toThrow('Failed to validate 1 secret(s)');
+  });
+});
+
+describe('SecretManagerService invalidation', () => {
+  let transport: EventEmitterInvalidationTransport;
+  let modules: TestingModule[];
+
+  async function createService(
+    options: Partial<SecretManagerModuleOptions> = {},
+  ): Promise<SecretManagerService> {
+    const module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'api-key': 'initial-value' },
+            validateOnStartup: false,
+            invalidationTransport: transport,
+            ...options,
+          },
+        },
+      ],
+    }).compile();
+    await module.init();
+    modules.push(module);
+
+    return module.get<SecretManagerService>(SecretManagerService);
+  }
+
+  beforeEach(() => {
+    secretRegistry.clear();
+    transport = new EventEmitterInvalidationTransport();
+    modules = [];
+  });
+
+  afterEach(async () => {
+    for (const module of modules) {
+      await module.close();
+    }
+    secretRegistry.clear();
+  });
+
+  it('should drop every cached version of a secret', async () => {
+    const service = await createService();
+    service.getInMemoryBackend().set('api-key', 'versioned-value', '2');
+    await service.get('api-key');
+    await service.get('api-key', '2');
+
+    expect(await service.invalidate('api-key')).toBe(2);
+
+    service.getInMemoryBackend().set('api-key', 'rotated-value');
+    expect(await service.get('api-key')).toBe('rotated-value');
+  });
+
+  it('should drop only the given version', async () => {
+    const service = await createService();
+    service.getInMemoryBackend().set('api-key', 'versioned-value', '2');
+    await service.get('api-key');
+    await service.get('api-key', '2');
+
+    expect(await service.invalidate('api-key', { version: 'latest' })).toBe(1);
+    expect(service.getStats().size).toBe(1);
+
+    expect(await service.invalidate('memory://api-key#2')).toBe(1);
+    expect(service.getStats().size).toBe(0);
+
+    await service.get('api-key');
+    await service.get('api-key', '2');
+    expect(await service.invalidate('memory://api-key#latest')).toBe(1);
+    expect(service.getStats().size).toBe(1);
+  });
+
+  it('should count entries once on stores that cannot report deletions', async () => {
+    const entries = new Map<string, SecretCacheEntry>();
+    const service = await createService({
+      cacheStore: {
+        get: (key) => entries.get(key),
+        set: (key, entry) => void entries.set(key, entry),
+        delete: (key) => void entries.delete(key),
+        clear: () => entries.clear(),
+        keys: () => entries.keys(),
+      },
+    });
+    await service.get('api-key');
+
+    expect(await service.invalidate('api-key')).toBe(1);
+    expect(entries.size).toBe(0);
+  });
+
+  it('should drop every cached secret of a backend', async () => {
+    const service = await createService();
+    service.getInMemoryBackend().set('db-password', 'password');
+    await service.get('api-key');
+    await service.get('db-password');
+
+    expect(await service.invalidateBackend('memory')).toBe(2);
+    expect(service.getStats().size).toBe(0);
+  });
+
+  it('should reject unknown backends', async () => {
+    const service = await createService();
+
+    await expect(
+      service.invalidate('api-key', { backend: 'unknown' }),
+    ).rejects.toThrow("Unknown secret backend: 'unknown'");
+  });
+
+  it('should broadcast invalidations to other instances', async () => {
+    const first = await createService();
+    const second = await createService();
+    await first.get('api-key');
+    await second.get('api-key');
+    second.getInMemoryBackend().set('api-key', 'rotated-value');
+
+    await first.invalidate('api-key');
+    await new Promise(setImmediate);
+
+    expect(await second.get('api-key')).toBe('rotated-value');
+  });
+
+  it('should broadcast backend invalidations to other instances', async () => {
+    const first = await createService();
+    const second = await createService();
+    await second.get('api-key');
+
+    await first.invalidateBackend('memory');
+    await new Promise(setImmediate);
+
+    expect(second.getStats().size).toBe(0);
+  });
+
+  it('should publish invalidation messages without values', async () => {
+    const service = await createService();
+    const listener = jest.fn();
+    transport.subscribe(listener);
+
+    await service.invalidate('api-key', { version: '3' });
+
+    expect(listener).toHaveBeenCalledWith({
+      origin: expect.any(String),
+      backend: 'memory',
+      name: 'api-key',
+      version: '3',
+    });
+  });
+
+  it('should invalidate locally when publishing fails', async () => {
+    const service = await createService();
+    await service.get('api-key');
+    jest.spyOn(transport, 'publish').mockImplementation(() => {
+      throw new Error('bus unavailable');
+    });
+
+    expect(await service.invalidate('api-key')).toBe(1);
+  });
+
+  it('should stop listening once the module is closed', async () => {
+    const first = await createService();
+    await createService();
+    await modules.pop()!.close();
+
+    await first.invalidate('api-key');
+
+    expect(transport.getEmitter().listenerCount('invalidate')).toBe(1);
+  });
+});
+
+describe('SecretManagerService getWithMetadata', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+  let getWithMetadata: jest.Mock;
+  let store: InMemorySecretCacheStore;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+    store = new InMemorySecretCacheStore();
+    getWithMetadata = jest.fn().mockResolvedValue({
+      value: 'initial-value',
+      version: '7',
+      createTime: new Date('2024-05-01T12:00:00Z'),
+      etag: '"abc"',
+      checksum: '1234',
+    });
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'remote',
+            inMemorySecrets: { 'api-key': 'memory-value' },
+            validateOnStartup: false,
+            cacheStore: store,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+    service.registerBackend({
+      name: 'remote',
+      get: jest.fn().mockResolvedValue('plain-value'),
+      getLatest: jest.fn(),
+      getWithMetadata,
+    });
+  });
+
+  afterEach(async () => {
+    await module.close();
+    secretRegistry.clear();
+  });
+
+  it('should return the value with the resolved version metadata', async () => {
+    expect(await service.getWithMetadata('api-key')).toEqual({
+      value: 'initial-value',
+      backend: 'remote',
+      resolvedVersion: '7',
+      createTime: new Date('2024-05-01T12:00:00Z'),
+      etag: '"abc"',
+      checksum: '1234',
+    });
+    expect(getWithMetadata).toHaveBeenCalledWith('api-key', 'latest');
+  });
+
+  it('should serve cached values with their metadata', async () => {
+    await service.get('api-key');
+
+    const result = await service.getWithMetadata('api-key');
+
+    expect(result.resolvedVersion).toBe('7');
+    expect(getWithMetadata).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report explicit versions of backends without metadata', async () => {
+    expect(await service.getWithMetadata('memory://api-key')).toEqual({
+      value: 'memory-value',
+      backend: 'memory',
+      resolvedVersion: 'latest',
+    });
+
+    service.registerBackend({
+      name: 'plain',
+      get: jest.fn().mockResolvedValue('plain-value'),
+      getLatest: jest.fn(),
+    });
+    expect(await service.getWithMetadata('api-key', '3', 'plain')).toEqual({
+      value: 'plain-value',
+      backend: 'plain',
+      resolvedVersion: '3',
+    });
+    expect(
+      (await service.getWithMetadata('api-key', undefined, 'plain'))
+        .resolvedVersion,
+    ).toBeUndefined();
+  });
+
+  it('should not report metadata of a value it did not fetch', async () => {
+    await service.get('api-key');
+    store.set('remote:api-key:latest', {
+      value: 'value-cached-elsewhere',
+      cachedAt: Date.now(),
+    });
+
+    expect(await service.getWithMetadata('api-key')).toEqual({
+      value: 'value-cached-elsewhere',
+      backend: 'remote',
+    });
+  });
+
+  it('should describe the resolved version only when asked', async () => {
+    const describeVersion = jest.fn().mockResolvedValue({
+      version: '7',
+      createTime: new Date('2024-05-01T12:00:00Z'),
+      etag: '"abc"',
+    });
+    service.registerBackend({
+      name: 'described',
+      get: jest.fn(),
+      getLatest: jest.fn(),
+      getWithMetadata: jest
+        .fn()
+        .mockResolvedValue({ value: 'described-value', version: '7' }),
+      describeVersion,
+    });
+
+    await service.get('api-key', undefined, 'described');
+    expect(describeVersion).not.toHaveBeenCalled();
+
+    const expected = {
+      value: 'described-value',
+      backend: 'described',
+      resolvedVersion: '7',
+      createTime: new Date('2024-05-01T12:00:00Z'),
+      etag: '"abc"',
+    };
+    expect(
+      await service.getWithMetadata('api-key', undefined, 'described'),
+    ).toEqual(expected);
+    expect(
+      await service.getWithMetadata('api-key', undefined, 'described'),
+    ).toEqual(expected);
+    expect(describeVersion).toHaveBeenCalledTimes(1);
+    expect(describeVersion).toHaveBeenCalledWith('api-key', '7');
+  });
+
+  it('should drop metadata with the cached value', async () => {
+    await service.get('api-key');
+    await service.invalidate('api-key');
+    store.set('remote:api-key:latest', {
+      value: 'initial-value',
+      cachedAt: Date.now(),
+    });
+
+    expect(await service.getWithMetadata('api-key')).toEqual({
+      value: 'initial-value',
+      backend: 'remote',
+    });
+  });
+
+  it('should record the resolved version on its span', async () => {
+    const span = {
+      setAttribute: jest.fn(),
+      setStatus: jest.fn(),
+      end: jest.fn(),
+    };
+    // No context manager is registered, so the span is never active
+    jest.spyOn(trace, 'getTracer').mockReturnValue({
+      startActiveSpan: (_name: string, fn: (span: Span) => unknown) =>
+        fn(span as unknown as Span),
+    } as unknown as Tracer);
+    const traced = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: { defaultBackend: 'remote', validateOnStartup: false },
+        },
+      ],
+    }).compile();
+    const tracedService = traced.get(SecretManagerService);
+    tracedService.registerBackend({
+      name: 'remote',
+      get: jest.fn(),
+      getLatest: jest.fn(),
+      getWithMetadata,
+    });
+
+    await tracedService.get('api-key');
+    await tracedService.get('api-key');
+
+    expect(
+      span.setAttribute.mock.calls.filter(
+        ([name]) => name === 'secret.resolved_version',
+      ),
+    ).toEqual([
+      ['secret.resolved_version', '7'],
+      ['secret.resolved_version', '7'],
+    ]);
+    jest.restoreAllMocks();
+    await traced.close();
+  });
+});
+
+describe('SecretManagerService write operations', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            validateOnStartup: false,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+    await service.createSecret('api-key');
+    await service.addVersion('api-key', 'initial-value');
+  });
+
+  afterEach(async () => {
+    await module.close();
+    secretRegistry.clear();
+  });
+
+  it('should create secrets and add versions', async () => {
+    expect(await service.get('api-key')).toBe('initial-value');
+    expect(service.getInMemoryBackend().has('api-key', '1')).toBe(true);
+  });
+
+  it('should serve an added version as latest right away', async () => {
+    await service.get('api-key');
+
+    expect(await service.addVersion('api-key', 'rotated-value')).toBe('2');
+    expect(await service.get('api-key')).toBe('rotated-value');
+  });
+
+  it('should stop serving cached values of a disabled version', async () => {
+    await service.get('api-key');
+    await service.get('api-key', '1');
+
+    await service.disableVersion('memory://api-key#1');
+
+    await expect(service.get('api-key')).rejects.toThrow(SecretNotFoundError);
+    await expect(service.get('api-key', '1')).rejects.toThrow(
+      SecretNotFoundError,
+    );
+  });
+
+  it('should stop serving cached values of a destroyed version', async () => {
+    await service.get('api-key', '1');
+
+    await service.destroyVersion('api-key', '1');
+
+    await expect(service.get('api-key', '1')).rejects.toThrow(
+      SecretNotFoundError,
+    );
+  });
+
+  it('should require a specific version to deactivate', async () => {
+    await expect(service.disableVersion('api-key')).rejects.toThrow(
+      "Cannot disable 'api-key': a specific version is required",
+    );
+    await expect(
+      service.destroyVersion('memory://api-key#latest'),
+    ).rejects.toThrow(
+      "Cannot destroy 'memory://api-key#latest': a specific version is required",
+    );
+    expect(await service.get('api-key')).toBe('initial-value');
+  });
+
+  it('should reject writes to read-only backends', async () => {
+    await expect(service.addVersion('API_KEY', 'value', 'env')).rejects.toThrow(
+      SecretOperationNotSupportedError,
+    );
+    await expect(service.createSecret('api-key', {}, 'env')).rejects.toThrow(
+      "Secret backend 'env' does not support createSecret",
+    );
+  });
+});
+
+describe('SecretManagerService listing', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'db-password': 'password' },
+            validateOnStartup: false,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    secretRegistry.clear();
+  });
+
+  it('should list the secrets of a backend', async () => {
+    await service.createSecret('api-key');
+
+    const page = await service.listSecrets('memory', { pageSize: 1 });
+
+    expect(page).toEqual({
+      secrets: [{ name: 'api-key' }],
+      nextPageToken: '1',
+    });
+  });
+
+  it('should list the versions of a secret', async () => {
+    await service.createSecret('api-key');
+    await service.addVersion('api-key', 'v1');
+    await service.addVersion('api-key', 'v2');
+    await service.disableVersion('api-key', '1');
+
+    const versions = await service.listVersions('memory://api-key');
+
+    expect(versions.map(({ version, state }) => ({ version, state }))).toEqual([
+      { version: '2', state: 'enabled' },
+      { version: '1', state: 'disabled' },
+    ]);
+  });
+
+  it('should reject backends that cannot be listed', async () => {
+    await expect(service.listSecrets('env')).rejects.toThrow(
+      SecretOperationNotSupportedError,
+    );
+    await expect(service.listVersions('API_KEY', 'env')).rejects.toThrow(
+      "Secret backend 'env' does not support listVersions",
+    );
+  });
+});
+
+describe('SecretManagerService log redaction', () => {
+  let module: TestingModule;
+  let service: SecretManagerService;
+  let target: { log: jest.Mock; error: jest.Mock; warn: jest.Mock };
+
+  beforeEach(async () => {
+    secretRegistry.clear();
+    target = { log: jest.fn(), error: jest.fn(), warn: jest.fn() };
+
+    module = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'api-key': 'sk-live-12345' },
+            validateOnStartup: false,
+            redactLogs: true,
+          },
+        },
+      ],
+    })
+      .setLogger(target)
+      .compile();
+    await module.init();
+
+    service = module.get<SecretManagerService>(SecretManagerService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    Logger.overrideLogger(new Logger());
+    secretRegistry.clear();
+  });
+
+  it('should mask cached secrets in application logs', async () => {
+    const apiKey = await service.get('api-key');
+
+    new Logger('Payments').log(`Charging with ${apiKey}`);
+
+    expect(target.log).toHaveBeenCalledWith(
+      'Charging with [REDACTED]',
+      'Payments',
+    );
+  });
+
+  it('should stop masking secrets once they leave the cache', async () => {
+    const apiKey = await service.get('api-key');
+    await service.invalidate('api-key');
+
+    new Logger('Payments').log(`Charging with ${apiKey}`);
+
+    expect(target.log).toHaveBeenCalledWith(
+      'Charging with sk-live-12345',
+      'Payments',
+    );
+  });
+
+  it('should stop masking secrets evicted from a full cache', async () => {
+    const limited = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: {
+              'api-key': 'sk-live-12345',
+              'db-password': 'hunter2-password',
+            },
+            validateOnStartup: false,
+            cacheMaxEntries: 1,
+            redactLogs: true,
+          },
+        },
+      ],
+    }).compile();
+    const limitedService = limited.get(SecretManagerService);
+    const redactingLogger = limitedService.getRedactingLogger()!;
+
+    await limitedService.get('api-key');
+    await limitedService.get('db-password');
+
+    expect(redactingLogger.redact('sk-live-12345 hunter2-password')).toBe(
+      'sk-live-12345 [REDACTED]',
+    );
+    await limited.close();
+  });
+
+  it('should mask secrets read from a shared cache store', async () => {
+    const store = new InMemorySecretCacheStore();
+    store.set('memory:api-key:latest', {
+      value: 'sk-shared-67890',
+      cachedAt: Date.now(),
+    });
+    const shared = await Test.createTestingModule({
+      providers: [
+        SecretManagerService,
+        {
+          provide: SECRET_MANAGER_OPTIONS,
+          useValue: {
+            defaultBackend: 'memory',
+            inMemorySecrets: { 'api-key': 'sk-live-12345' },
+            validateOnStartup: false,
+            cacheStore: store,
+            redactLogs: true,
+          },
+        },
+      ],
+    }).compile();
+    const sharedService = shared.get(SecretManagerService);
+
+    const apiKey = await sharedService.get('api-key');
+
+    expect(apiKey).toBe('sk-shared-67890');
+    expect(
+      sharedService.getRedactingLogger()!.redact(`Charging with ${apiKey}`),
+    ).toBe('Charging with [REDACTED]');
+    await shared.close();
+  });
+
+  it('should refuse to redact logs of an encrypted cache', async () => {
+    await expect(
+      Test.createTestingModule({
+        providers: [
+          SecretManagerService,
+          {
+            provide: SECRET_MANAGER_OPTIONS,
+            useValue: {
+              defaultBackend: 'memory',
+              cacheEncryption: true,
+              redactLogs: true,
+            },
+          },
+        ],
+      }).compile(),
+    ).rejects.toThrow('redactLogs cannot be combined with cacheEncryption');
+  });
+
+  it('should restore the application logger when closed', async () => {
+    await service.get('api-key');
+    await module.close();
+
+    new Logger('Payments').log('Charging with sk-live-12345');
+
+    expect(target.log).toHaveBeenCalledWith(
+      'Charging with sk-live-12345',
+      'Payments',
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { getSecretToken, secretRegistry } from '../src/constants';
+import {
+  isSecretReference,
+  parseSecretReference,
+  resolveSecretReference,
+} from '../src/secret-reference';
+
+describe('secret references', () => {
+  describe('isSecretReference', () => {
+    it('should detect URI-style references', () => {
+      expect(isSecretReference('gcp://db-password')).toBe(true);
+      expect(isSecretReference('env://API_KEY')).toBe(true);
+    });
+
+    it('should not treat plain names as references', () => {
+      expect(isSecretReference('db-password')).toBe(false);
+      expect(isSecretReference('projects/p/secrets/db')).toBe(false);
+    });
+  });
+
+  describe('parseSecretReference', () => {
+    it('should parse backend and name', () => {
+      expect(parseSecretReference('memory://api-key')).toEqual({
+        backend: 'memory',
+        name: 'api-key',
+        version: undefined,
+      });
+    });
+
+    it('should parse the version from the fragment', () => {
+      expect(parseSecretReference('gcp://db-password#3')).toEqual({
+        backend: 'gcp',
+        name: 'db-password',
+        version: '3',
+      });
+    });
+
+    it('should parse full GCP resource names', () => {
+      expect(
+        parseSecretReference('gcp://projects/p/secrets/db/versions/3'),
+      ).toEqual({
+        backend: 'gcp',
+        name: 'projects/p/secrets/db',
+        version: '3',
+      });
+    });
+
+    it('should reject malformed references', () => {
+      expect(() => parseSecretReference('api-key')).toThrow(
+        "Invalid secret reference: 'api-key'",
+      );
+      expect(() => parseSecretReference('gcp://#3')).toThrow('no secret name');
+      expect(() =>
+        parseSecretReference('gcp://projects/p/secrets/db/versions/3#4'),
+      ).toThrow('specifies two versions');
+    });
+  });
+
+  describe('resolveSecretReference', () => {
+    it('should pass plain names through', () => {
+      expect(resolveSecretReference('api-key', '2', 'memory')).toEqual({
+        name: 'api-key',
+        version: '2',
+        backend: 'memory',
+      });
+    });
+
+    it('should fill in the version from explicit arguments', () => {
+      expect(resolveSecretReference('gcp://db', '2')).toEqual({
+        name: 'db',
+        version: '2',
+        backend: 'gcp',
+      });
+    });
+
+    it('should treat latest as unset', () => {
+      expect(resolveSecretReference('gcp://db#latest', 'latest')).toEqual({
+        name: 'db',
+        version: undefined,
+        backend: 'gcp',
+      });
+    });
+
+    it('should reject conflicting backends and versions', () => {
+      expect(() =>
+        resolveSecretReference('gcp://db', undefined, 'env'),
+      ).toThrow("conflicts with backend 'env'");
+      expect(() => resolveSecretReference('gcp://db#3', '4')).toThrow(
+        "conflicts with version '4'",
+      );
+    });
+  });
+
+  describe('tokens', () => {
+    afterEach(() => {
+      secretRegistry.clear();
+    });
+
+    it('should resolve equivalent forms to the same token', () => {
+      const token = getSecretToken('db', { backend: 'gcp', version: '3' });
+
+      expect(getSecretToken('gcp://db#3')).toBe(token);
+      expect(getSecretToken('gcp://db', { version: '3' })).toBe(token);
+      expect(getSecretToken('memory://api-key')).toBe(
+        getSecretToken('api-key', { backend: 'memory', version: 'latest' }),
+      );
+    });
+
+    it('should give different fields of one secret distinct tokens', () => {
+      expect(getSecretToken('db', { field: 'user' })).not.toBe(
+        getSecretToken('db', { field: 'password' }),
+      );
+      expect(getSecretToken('db', { field: 'user' })).not.toBe(
+        getSecretToken('db'),
+      );
+    });
+
+    it('should give redacted injections a distinct token', () => {
+      expect(getSecretToken('db', { redact: true })).not.toBe(
+        getSecretToken('db'),
+      );
+      expect(getSecretToken('db', { redact: false })).toBe(
+        getSecretToken('db'),
+      );
+    });
+
+    it('should register normalized requirements', () => {
+      secretRegistry.register('gcp://db#3');
+      secretRegistry.register('db', { backend: 'gcp', version: '3' });
+
+      expect(secretRegistry.getAll()).toEqual([
+        {
+          name: 'db',
+          version: '3',
+          backend: 'gcp',
+          token: getSecretToken('gcp://db#3'),
+        },
+      ]);
+    });
+  });
+});
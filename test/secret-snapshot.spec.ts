@@ -0,0 +1,87 @@
+import { randomBytes } from 'crypto';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { SecretSnapshot, SecretSnapshotEntry } from '../src/secret-snapshot';
+
+describe('SecretSnapshot', () => {
+  let directory: string;
+  let path: string;
+  let key: Buffer;
+  let snapshot: SecretSnapshot;
+
+  const entry: SecretSnapshotEntry = {
+    backend: 'gcp',
+    name: 'db-password',
+    version: 'latest',
+    value: 'super-secret-value',
+    fetchedAt: Date.now(),
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'secret-snapshot-'));
+    path = join(directory, 'secrets.snapshot');
+    key = randomBytes(32);
+    snapshot = new SecretSnapshot({ path, key, maxAge: 60000 });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read back written entries', async () => {
+    await snapshot.write([entry]);
+
+    expect(await snapshot.read()).toEqual([entry]);
+  });
+
+  it('should not store values in plaintext', async () => {
+    await snapshot.write([entry]);
+
+    expect(readFileSync(path, 'utf-8')).not.toContain('super-secret-value');
+  });
+
+  it('should accept base64 keys', async () => {
+    await snapshot.write([entry]);
+
+    const fromString = new SecretSnapshot({
+      path,
+      key: key.toString('base64'),
+      maxAge: 60000,
+    });
+
+    expect(await fromString.read()).toEqual([entry]);
+  });
+
+  it('should return no entries when there is no snapshot', async () => {
+    expect(await snapshot.read()).toEqual([]);
+  });
+
+  it('should skip entries older than the maximum age', async () => {
+    const old = { ...entry, name: 'old', fetchedAt: Date.now() - 120000 };
+    await snapshot.write([entry, old]);
+
+    expect(await snapshot.read()).toEqual([entry]);
+  });
+
+  it('should reject snapshots written with another key', async () => {
+    await snapshot.write([entry]);
+
+    const other = new SecretSnapshot({
+      path,
+      key: randomBytes(32),
+      maxAge: 60000,
+    });
+
+    await expect(other.read()).rejects.toThrow(
+      'Cannot decrypt secret snapshot',
+    );
+  });
+
+  it('should require a 32-byte key', () => {
+    expect(
+      () => new SecretSnapshot({ path, key: randomBytes(16), maxAge: 1 }),
+    ).toThrow('Secret snapshot key must be 32 bytes, got 16');
+  });
+});
@@ -0,0 +1,105 @@
+import { KeyObject, generateKeyPairSync } from 'crypto';
+
+import { SecretTransformError } from '../src/errors/secret-transform.error';
+import { applySecretTransform } from '../src/secret-transform';
+
+describe('applySecretTransform', () => {
+  const apply = (
+    value: string,
+    transform: Parameters<typeof applySecretTransform>[1],
+  ) => applySecretTransform(value, transform, 'my-secret', 'memory');
+
+  describe('number', () => {
+    it('should parse numbers', () => {
+      expect(apply(' 5432\n', 'number')).toBe(5432);
+      expect(apply('0.5', 'number')).toBe(0.5);
+    });
+
+    it('should reject non-numeric values', () => {
+      expect(() => apply('abc', 'number')).toThrow(SecretTransformError);
+      expect(() => apply('', 'number')).toThrow(SecretTransformError);
+    });
+  });
+
+  describe('boolean', () => {
+    it('should parse boolean values', () => {
+      expect(apply('true', 'boolean')).toBe(true);
+      expect(apply('YES', 'boolean')).toBe(true);
+      expect(apply('0', 'boolean')).toBe(false);
+      expect(apply('off', 'boolean')).toBe(false);
+    });
+
+    it('should reject other values', () => {
+      expect(() => apply('maybe', 'boolean')).toThrow(SecretTransformError);
+    });
+  });
+
+  describe('json', () => {
+    it('should parse JSON', () => {
+      expect(apply('{"a":1}', 'json')).toEqual({ a: 1 });
+    });
+
+    it('should reject malformed JSON without leaking the value', () => {
+      try {
+        apply('hunter2', 'json');
+        fail('Expected error to be thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SecretTransformError);
+        expect((error as Error).message).toContain("'my-secret'");
+        expect((error as Error).message).not.toContain('hunter2');
+      }
+    });
+  });
+
+  describe('base64', () => {
+    it('should decode to a Buffer', () => {
+      const result = apply(Buffer.from('binary').toString('base64'), 'base64');
+      expect(Buffer.isBuffer(result)).toBe(true);
+      expect((result as Buffer).toString()).toBe('binary');
+    });
+
+    it('should reject invalid base64', () => {
+      expect(() => apply('not base64!', 'base64')).toThrow(
+        SecretTransformError,
+      );
+    });
+  });
+
+  describe('pem', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+
+    it('should parse private keys', () => {
+      const key = apply(privateKey, 'pem') as KeyObject;
+      expect(key).toBeInstanceOf(KeyObject);
+      expect(key.type).toBe('private');
+    });
+
+    it('should parse public keys', () => {
+      expect((apply(publicKey, 'pem') as KeyObject).type).toBe('public');
+    });
+
+    it('should reject invalid PEM', () => {
+      expect(() => apply('not a key', 'pem')).toThrow(SecretTransformError);
+    });
+  });
+
+  describe('custom', () => {
+    it('should apply custom functions', () => {
+      expect(apply('a,b', (value) => value.split(','))).toEqual(['a', 'b']);
+    });
+
+    it('should wrap errors thrown by custom functions', () => {
+      function parseUrl(value: string): URL {
+        return new URL(value);
+      }
+
+      expect(() => apply('no-url', parseUrl)).toThrow(
+        "Cannot apply transform 'parseUrl' to secret 'my-secret'",
+      );
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { randomBytes } from 'crypto';
+
+import { InMemorySecretCacheStore } from '../../src/stores/in-memory-cache.store';
+
+jest.mock('crypto', () => {
+  const actual = jest.requireActual<typeof import('crypto')>('crypto');
+  return { ...actual, randomBytes: jest.fn(actual.randomBytes) };
+});
+
+describe('InMemorySecretCacheStore', () => {
+  let store: InMemorySecretCacheStore;
+
+  beforeEach(() => {
+    store = new InMemorySecretCacheStore();
+  });
+
+  function entry(value: string): { value: string; cachedAt: number } {
+    return { value, cachedAt: 0 };
+  }
+
+  describe('get/set', () => {
+    it('should store and retrieve entries', () => {
+      store.set('gcp:key1:latest', entry('value1'));
+
+      expect(store.get('gcp:key1:latest')).toEqual({
+        value: 'value1',
+        cachedAt: 0,
+      });
+      expect(store.get('gcp:key2:latest')).toBeUndefined();
+    });
+  });
+
+  describe('keys', () => {
+    it('should list the stored keys', () => {
+      store.set('gcp:key1:latest', entry('value1'));
+      store.set('gcp:key2:latest', entry('value2'));
+
+      expect(store.keys()).toEqual(['gcp:key1:latest', 'gcp:key2:latest']);
+    });
+  });
+
+  describe('size limits', () => {
+    it('should evict the least recently used entry beyond maxEntries', () => {
+      const lruStore = new InMemorySecretCacheStore({ maxEntries: 2 });
+
+      lruStore.set('gcp:key1:latest', entry('value1'));
+      lruStore.set('gcp:key2:latest', entry('value2'));
+      lruStore.get('gcp:key1:latest');
+      lruStore.set('gcp:key3:latest', entry('value3'));
+
+      expect(lruStore.keys()).toEqual(['gcp:key1:latest', 'gcp:key3:latest']);
+      expect(lruStore.getStats().evictions).toBe(1);
+    });
+
+    it('should report evicted keys to listeners', () => {
+      const lruStore = new InMemorySecretCacheStore({ maxEntries: 1 });
+      const listener = jest.fn();
+      lruStore.onEvict(listener);
+
+      lruStore.set('gcp:key1:latest', entry('value1'));
+      lruStore.set('gcp:key2:latest', entry('value2'));
+      lruStore.delete('gcp:key2:latest');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('gcp:key1:latest');
+    });
+
+    it('should evict entries beyond maxBytes', () => {
+      // Each entry takes 'gcp:keyN:latest' (15 bytes) + 'valueN' (6 bytes)
+      const lruStore = new InMemorySecretCacheStore({ maxBytes: 50 });
+
+      lruStore.set('gcp:key1:latest', entry('value1'));
+      lruStore.set('gcp:key2:latest', entry('value2'));
+      lruStore.set('gcp:key3:latest', entry('value3'));
+
+      expect(lruStore.keys()).toEqual(['gcp:key2:latest', 'gcp:key3:latest']);
+      expect(lruStore.getStats().bytes).toBe(42);
+    });
+
+    it('should not store values larger than maxBytes', () => {
+      const lruStore = new InMemorySecretCacheStore({ maxBytes: 10 });
+
+      lruStore.set('gcp:key1:latest', entry('a-much-longer-value'));
+
+      expect(lruStore.getStats()).toEqual({ size: 0, bytes: 0, evictions: 1 });
+    });
+
+    it('should account for replaced and deleted entries', () => {
+      store.set('gcp:key1:latest', entry('value1'));
+      store.set('gcp:key1:latest', entry('longer-value1'));
+      expect(store.getStats().bytes).toBe(
+        Buffer.byteLength('gcp:key1:latest') +
+          Buffer.byteLength('longer-value1'),
+      );
+
+      expect(store.delete('gcp:key1:latest')).toBe(true);
+      expect(store.delete('gcp:key1:latest')).toBe(false);
+      expect(store.getStats().bytes).toBe(0);
+    });
+  });
+
+  describe('zeroing', () => {
+    function storedData(target: InMemorySecretCacheStore, key: string): Buffer {
+      return target['entries'].get(key)!.data;
+    }
+
+    it('should zero values when entries are deleted or replaced', () => {
+      store.set('gcp:key1:latest', entry('value1'));
+      const deleted = storedData(store, 'gcp:key1:latest');
+      store.delete('gcp:key1:latest');
+
+      store.set('gcp:key2:latest', entry('value2'));
+      const replaced = storedData(store, 'gcp:key2:latest');
+      store.set('gcp:key2:latest', entry('value3'));
+
+      expect(deleted.every((byte) => byte === 0)).toBe(true);
+      expect(replaced.every((byte) => byte === 0)).toBe(true);
+    });
+
+    it('should zero values when entries are evicted or cleared', () => {
+      const lruStore = new InMemorySecretCacheStore({ maxEntries: 1 });
+      lruStore.set('gcp:key1:latest', entry('value1'));
+      const evicted = storedData(lruStore, 'gcp:key1:latest');
+      lruStore.set('gcp:key2:latest', entry('value2'));
+      const cleared = storedData(lruStore, 'gcp:key2:latest');
+
+      lruStore.clear();
+
+      expect(evicted.every((byte) => byte === 0)).toBe(true);
+      expect(cleared.every((byte) => byte === 0)).toBe(true);
+    });
+  });
+
+  describe('encryption', () => {
+    let encrypted: InMemorySecretCacheStore;
+
+    beforeEach(() => {
+      encrypted = new InMemorySecretCacheStore({ encrypt: true });
+    });
+
+    it('should return the original values', () => {
+      encrypted.set('gcp:key1:latest', entry('super-secret-value'));
+
+      expect(encrypted.get('gcp:key1:latest')).toEqual({
+        value: 'super-secret-value',
+        cachedAt: 0,
+      });
+    });
+
+    it('should not hold plaintext values', () => {
+      encrypted.set('gcp:key1:latest', entry('super-secret-value'));
+
+      const data = encrypted['entries'].get('gcp:key1:latest')!.data;
+      expect(data.toString('utf-8')).not.toContain('super-secret-value');
+    });
+
+    it('should zero the raw key material', () => {
+      jest.mocked(randomBytes).mockClear();
+      const store = new InMemorySecretCacheStore({ encrypt: true });
+      const material = jest.mocked(randomBytes).mock.results[0]!
+        .value as Buffer;
+
+      expect(material.every((byte) => byte === 0)).toBe(true);
+      store.set('gcp:key1:latest', entry('value1'));
+      expect(store.get('gcp:key1:latest')!.value).toBe('value1');
+    });
+
+    it('should use a different key per store', () => {
+      const other = new InMemorySecretCacheStore({ encrypt: true });
+      encrypted.set('gcp:key1:latest', entry('value1'));
+      other['entries'].set(
+        'gcp:key1:latest',
+        encrypted['entries'].get('gcp:key1:latest')!,
+      );
+
+      expect(() => other.get('gcp:key1:latest')).toThrow();
+    });
+
+    it('should bind ciphertexts to their cache key', () => {
+      encrypted.set('gcp:key1:latest', entry('value1'));
+      encrypted['entries'].set(
+        'gcp:key2:latest',
+        encrypted['entries'].get('gcp:key1:latest')!,
+      );
+
+      expect(() => encrypted.get('gcp:key2:latest')).toThrow();
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove all entries', () => {
+      store.set('gcp:key1:latest', entry('value1'));
+
+      store.clear();
+
+      expect(store.getStats()).toEqual({ size: 0, bytes: 0, evictions: 0 });
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { EventEmitter } from 'events';
+
+import { EventEmitterInvalidationTransport } from '../../src/transports/event-emitter-invalidation.transport';
+
+describe('EventEmitterInvalidationTransport', () => {
+  const message = { origin: 'instance-1', backend: 'gcp', name: 'api-key' };
+
+  it('should deliver published messages to every subscriber', () => {
+    const transport = new EventEmitterInvalidationTransport();
+    const first = jest.fn();
+    const second = jest.fn();
+    transport.subscribe(first);
+    transport.subscribe(second);
+
+    transport.publish(message);
+
+    expect(first).toHaveBeenCalledWith(message);
+    expect(second).toHaveBeenCalledWith(message);
+  });
+
+  it('should stop delivering messages after unsubscribing', () => {
+    const transport = new EventEmitterInvalidationTransport();
+    const listener = jest.fn();
+    const unsubscribe = transport.subscribe(listener);
+
+    unsubscribe();
+    transport.publish(message);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should use the given emitter', () => {
+    const emitter = new EventEmitter();
+    const transport = new EventEmitterInvalidationTransport(emitter);
+    const listener = jest.fn();
+    transport.subscribe(listener);
+
+    emitter.emit('invalidate', message);
+
+    expect(transport.getEmitter()).toBe(emitter);
+    expect(listener).toHaveBeenCalledWith(message);
+  });
+});